@@ -0,0 +1,186 @@
+// CorrectionIssue の start/end を原文と照合し、ずれている場合は再アンカーする
+//
+// モデルが返すオフセットはよくずれるため、そのまま信用せず
+// 「指定位置 → 完全一致 → 正規化一致 → 類似度」の順で原文中の位置を探す。
+
+import { CorrectionIssue } from './providers';
+
+// これ未満の類似度ではアンカーしない
+const MIN_SIMILARITY = 0.8;
+const MAX_FUZZY_LENGTH = 200;
+// 類似度を計算する終了位置の上限
+const MAX_FUZZY_CANDIDATES = 20;
+
+interface Anchor {
+  start: number;
+  end: number;
+}
+
+function hasValidOffsets(text: string, issue: CorrectionIssue): boolean {
+  return Number.isInteger(issue.start) &&
+         Number.isInteger(issue.end) &&
+         issue.start! >= 0 &&
+         issue.end! <= text.length &&
+         issue.start! < issue.end!;
+}
+
+function nearest(candidates: Anchor[], hint: number | undefined): Anchor | null {
+  if (candidates.length === 0) return null;
+  if (hint === undefined) return candidates[0];
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate.start - hint) < Math.abs(best.start - hint) ? candidate : best
+  );
+}
+
+function findExact(text: string, search: string): Anchor[] {
+  const anchors: Anchor[] = [];
+  let index = text.indexOf(search);
+  while (index !== -1) {
+    anchors.push({ start: index, end: index + search.length });
+    index = text.indexOf(search, index + 1);
+  }
+  return anchors;
+}
+
+// 大文字小文字と連続する空白の違いを無視して探す
+function findNormalized(text: string, search: string): Anchor[] {
+  const pattern = search
+    .trim()
+    .split(/\s+/)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  if (!pattern) return [];
+
+  return Array.from(text.matchAll(new RegExp(pattern, 'gi')), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+}
+
+// 編集距離が maxDistance を超えることが分かった時点で打ち切る（超えた場合は maxDistance + 1 を返す）。
+// 差が maxDistance を超える位置の組み合わせは計算しない（帯状のDP）
+function boundedLevenshtein(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  const exceeded = maxDistance + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => (j <= maxDistance ? j : exceeded));
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(exceeded);
+    if (i <= maxDistance) current[0] = i;
+    const from = Math.max(1, i - maxDistance);
+    const to = Math.min(b.length, i + maxDistance);
+    let rowMin = current[0];
+    for (let j = from; j <= to; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        exceeded
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return exceeded;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 原文の各位置で終わる部分文字列と search との編集距離の最小値（開始位置は問わない）。
+// 1回のDPで求まるので、類似度を計算する候補の終了位置を絞り込むのに使う
+function minDistancesByEnd(text: string, search: string): number[] {
+  let previous = new Array<number>(text.length + 1).fill(0);
+  for (let i = 1; i <= search.length; i++) {
+    const current = new Array<number>(text.length + 1);
+    current[0] = i;
+    for (let j = 1; j <= text.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (search[i - 1] === text[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous;
+}
+
+// original に最も近い部分文字列を探す（長さ ±2 のウィンドウ）
+function findSimilar(text: string, search: string, hint: number | undefined): Anchor | null {
+  // 長い文字列は計算量が大きく、誤アンカーもしやすいので諦める
+  if (search.length > MAX_FUZZY_LENGTH) return null;
+
+  // どのウィンドウでも類似度が MIN_SIMILARITY に届かない終了位置は調べない
+  const maxAllowed = Math.floor((1 - MIN_SIMILARITY) * (search.length + 2) + 1e-9);
+  const distances = minDistancesByEnd(text, search);
+  // 繰り返しの多いテキストでは候補が増えすぎるため、距離が小さく指定位置に近いものだけ調べる
+  const expectedEnd = hint === undefined ? undefined : hint + search.length;
+  const ends = distances
+    .map((distance, end) => ({ distance, end }))
+    .filter(({ distance, end }) => end > 0 && distance <= maxAllowed)
+    .sort((a, b) => a.distance - b.distance ||
+      (expectedEnd === undefined ? a.end - b.end : Math.abs(a.end - expectedEnd) - Math.abs(b.end - expectedEnd)))
+    .slice(0, MAX_FUZZY_CANDIDATES)
+    .map(({ end }) => end)
+    .sort((a, b) => a - b);
+
+  let best: (Anchor & { similarity: number }) | null = null;
+
+  for (let length = Math.max(1, search.length - 2); length <= search.length + 2; length++) {
+    const longest = Math.max(length, search.length);
+    for (const end of ends) {
+      const start = end - length;
+      if (start < 0) continue;
+
+      // これまでの最良候補より悪くなることが分かった時点で打ち切る（同じ類似度は位置で比べるので残す）
+      const bestDistance = best ? Math.floor((1 - best.similarity) * longest + 1e-9) : Infinity;
+      const maxDistance = Math.min(Math.floor((1 - MIN_SIMILARITY) * longest + 1e-9), bestDistance);
+      const distance = boundedLevenshtein(text.slice(start, end), search, maxDistance);
+      if (distance > maxDistance) continue;
+
+      const similarity = 1 - distance / longest;
+      const isBetter = !best ||
+        similarity > best.similarity ||
+        (similarity === best.similarity && hint !== undefined &&
+          Math.abs(start - hint) < Math.abs(best.start - hint));
+      if (isBetter) {
+        best = { start, end, similarity };
+      }
+    }
+  }
+
+  return best;
+}
+
+export function anchorIssue(text: string, issue: CorrectionIssue): CorrectionIssue {
+  const { start: _start, end: _end, ...withoutOffsets } = issue;
+
+  if (!issue.original) {
+    return withoutOffsets;
+  }
+
+  if (hasValidOffsets(text, issue) && text.slice(issue.start, issue.end) === issue.original) {
+    return issue;
+  }
+
+  const hint = Number.isInteger(issue.start) ? issue.start : undefined;
+  const anchor = nearest(findExact(text, issue.original), hint) ||
+                 nearest(findNormalized(text, issue.original), hint) ||
+                 findSimilar(text, issue.original, hint);
+
+  if (!anchor) {
+    console.log('Could not anchor issue:', issue.original);
+    return withoutOffsets;
+  }
+
+  // 原文の表記に合わせておく（採用時に置換できるように）
+  return {
+    ...issue,
+    original: text.slice(anchor.start, anchor.end),
+    start: anchor.start,
+    end: anchor.end
+  };
+}
+
+export function anchorIssues(text: string, issues: CorrectionIssue[]): CorrectionIssue[] {
+  return issues.map(issue => anchorIssue(text, issue));
+}
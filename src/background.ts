@@ -1,288 +1,506 @@
-// Background Script for Claude API integration
-
-interface CorrectionIssue {
-  type: 'typo' | 'nativeness';
-  original: string;
-  corrected: string;
-  reason: string;
-  severity: number;
+// Background Script for correction provider integration
+
+import { CorrectionIssue, CorrectionResult, PROVIDERS, ProviderHTTPError, createProvider, isFallbackResult } from './providers';
+import { anchorIssues } from './anchoring';
+import { CorrectionCache, createCacheKey } from './cache';
+import { CircuitBreaker } from './circuitBreaker';
+import { Glossary, enforceGlossary, formatGlossaryForPrompt } from './glossary';
+import { AUTO_LOCK_ALARM, KeyVault, VaultLockedError } from './keyVault';
+import { HistoryEntry, HistoryStore } from './historyStore';
+import { countMistakes, mistakeKey } from './learning';
+import { maskProtectedSpans, preservesPlaceholders, unmaskCorrectionResult } from './masking';
+import { DEFAULT_TARGET_LANGUAGE, TONE_TARGETS, ToneTarget } from './policies';
+import { PromptContext, formatContextForPrompt, sanitizePromptContext } from './promptContext';
+import { CorrectionMode, RuntimeResponse, ValidateKeyRequest, validateRuntimeRequest } from './protocol';
+import { DEFAULT_RETRY_OPTIONS, isTransientError, withRetry } from './retry';
+import { Settings, loadSettings, watchSettings } from './settings';
+import { BudgetExceededError, UsageStore, checkBudget } from './usage';
+
+// プロンプトの組み立てに使うオプション
+interface PromptOptions {
+  mode: CorrectionMode;
+  toneTarget: ToneTarget;
+  targetLanguage: string;
+  context: PromptContext | null;
 }
 
-interface CorrectionResult {
-  correctedText: string;
-  issues: CorrectionIssue[];
-  score: number;
-  needsCorrection: boolean;
-}
-
-interface ChromeRuntimeMessage {
-  action: string;
-  text?: string;
-}
-
-interface ChromeRuntimeResponse {
-  success: boolean;
-  data?: CorrectionResult;
-  error?: string;
-}
-
-interface ClaudeAPIRequest {
-  model: string;
-  max_tokens: number;
-  messages: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>;
-  tool_choice: {
-    type: 'tool';
-    name: string;
-  };
-  tools: Array<{
-    name: string;
-    description: string;
-    input_schema: object;
-  }>;
-}
-
-interface ClaudeAPIResponse {
-  content: Array<{
-    type: 'text' | 'tool_use';
-    text?: string;
-    name?: string;
-    input?: CorrectionResult;
-  }>;
+// プロンプトや出力スキーマを変更したら上げる（キャッシュの無効化に使う）
+const PROMPT_VERSION = 6;
+
+// トーン指定時にプロンプトへ追加する指示
+const TONE_INSTRUCTIONS: Record<ToneTarget, string | null> = {
+  none: null,
+  formal: '丁寧でフォーマルな言い回し（社外や目上の相手向け）',
+  casual: 'くだけたカジュアルな言い回し（親しい同僚向け）',
+  concise: '要点だけの簡潔な言い回し',
+  friendly: '柔らかく親しみやすい言い回し'
+};
+
+// 同一キーのリクエストを共有するための進行中リクエスト
+interface InFlightRequest {
+  promise: Promise<CorrectionResult>;
+  controller: AbortController;
+  subscribers: number;
+  cancelled: boolean;
 }
 
 class ClaudeAPIService {
-  private apiUrl: string;
+  private cache = new CorrectionCache();
+  private breaker = new CircuitBreaker();
+  private history = new HistoryStore();
+  private usage = new UsageStore();
+  private vault = new KeyVault();
+  // 開いているロック解除ウィンドウ
+  private unlockWindowId: number | null = null;
+  // 繰り返している指摘の判定用（履歴から遅延して作り、記録のたびに更新する）
+  private mistakeCounts: Promise<Map<string, number>> | null = null;
+  private inFlight = new Map<string, InFlightRequest>();
+  // requestId ごとのキャンセル処理
+  private cancellers = new Map<string, () => void>();
 
   constructor() {
-    this.apiUrl = 'https://api.anthropic.com/v1/messages';
     this.setupMessageListener();
+    // エンドポイントなどが変わったら失敗回数をリセット
+    watchSettings(() => {
+      this.breaker.reset().catch(error => console.error('Circuit breaker reset error:', error));
+    });
   }
 
   setupMessageListener(): void {
     chrome.runtime.onMessage.addListener((
-      request: ChromeRuntimeMessage, 
+      message: unknown, 
       sender: chrome.runtime.MessageSender, 
-      sendResponse: (response: ChromeRuntimeResponse) => void
+      sendResponse: (response: RuntimeResponse) => void
     ) => {
-      if (request.action === 'correctText' && request.text) {
-        this.correctText(request.text)
-          .then(response => sendResponse({ success: true, data: response }))
-          .catch(error => sendResponse({ success: false, error: error.message }));
-        return true; // 非同期レスポンス用
+      const validated = validateRuntimeRequest(message);
+      if ('error' in validated) {
+        console.error('Invalid runtime message:', validated.error, message);
+        sendResponse({ success: false, error: validated.error });
+        return;
+      }
+
+      const request = validated.request;
+      switch (request.action) {
+        case 'correctText': {
+          const toneTarget = request.toneTarget && TONE_TARGETS.includes(request.toneTarget) ? request.toneTarget : 'none';
+          // トーン指定のない書き換えはできないので通常の校正にする
+          const mode = request.mode === 'translate' || (request.mode === 'rewrite' && toneTarget !== 'none')
+            ? request.mode
+            : 'correct';
+          const targetLanguage = request.targetLanguage?.trim() || DEFAULT_TARGET_LANGUAGE;
+          const context = request.context ?? null;
+          this.correctText(request.text, request.requestId, { mode, toneTarget, targetLanguage, context })
+            .then(async response => sendResponse({ success: true, data: response, circuit: await this.breaker.getState() }))
+            .catch(async error => sendResponse({
+              success: false,
+              error: error.message,
+              circuit: await this.breaker.getState(),
+              budget: error instanceof BudgetExceededError ? { exceeded: error.period, action: error.action } : undefined
+            }));
+          return true; // 非同期レスポンス用
+        }
+
+        case 'getCircuitState':
+          this.breaker.getState()
+            .then(circuit => sendResponse({ success: true, circuit }))
+            .catch(error => sendResponse({ success: false, error: error.message }));
+          return true;
+
+        case 'recordHistory':
+          this.recordHistory(request.entry)
+            .then(() => sendResponse({ success: true }))
+            .catch(error => sendResponse({ success: false, error: error.message }));
+          return true;
+
+        case 'historyChanged':
+          // 次の校正で履歴から数え直す
+          this.mistakeCounts = null;
+          sendResponse({ success: true });
+          return;
+
+        case 'cancelRequest':
+          this.cancelRequest(request.requestId);
+          sendResponse({ success: true });
+          return;
+
+        case 'validateKey':
+          this.validateKey(request)
+            .then(() => sendResponse({ success: true }))
+            .catch(error => sendResponse({ success: false, error: error.message }));
+          return true;
       }
     });
   }
 
-  async correctText(text: string): Promise<CorrectionResult> {
+  async correctText(
+    text: string,
+    requestId?: string,
+    options: PromptOptions = { mode: 'correct', toneTarget: 'none', targetLanguage: DEFAULT_TARGET_LANGUAGE, context: null }
+  ): Promise<CorrectionResult> {
     try {
-      // APIキーを取得
-      const result = await chrome.storage.local.get(['claudeApiKey']);
-      const apiKey = result.claudeApiKey as string;
+      const settings = await loadSettings();
+      const definition = PROVIDERS[settings.providerId];
+      // 設定でオフの場合は受け取っても使わず、オンの場合もトークン数の上限内に収める。
+      // キャッシュのキーにもプロンプトに含めるものと同じ文脈を使う
+      const context = settings.conversationContextEnabled
+        ? sanitizePromptContext(options.context, settings.conversationContextTokenBudget)
+        : null;
+      options = { ...options, context };
+      const baseUrl = settings.providerBaseUrl || definition.defaultBaseUrl;
+      const model = settings.model || definition.defaultModel;
+
+      const key = await createCacheKey({
+        text,
+        providerId: settings.providerId,
+        baseUrl,
+        model,
+        promptVersion: PROMPT_VERSION,
+        mode: options.mode,
+        toneTarget: options.toneTarget,
+        targetLanguage: options.mode === 'translate' ? options.targetLanguage : '',
+        glossary: settings.glossary,
+        context
+      });
 
-      if (!apiKey) {
-        throw new Error('APIキーが設定されていません。拡張機能のオプションページで設定してください。');
+      let result = await this.cache.get(key);
+      if (result) {
+        console.log('Correction cache hit');
+      } else {
+        // 利用額の上限に達しているか、連続して失敗している間はAPIを呼ばずにすぐ失敗させる
+        await this.assertWithinBudget(settings, text, options.mode);
+        await this.breaker.assertCanRequest();
+        result = await this.subscribe(key, settings, text, options, requestId);
       }
 
-      const prompt = this.createCorrectionPrompt(text.trim());
+      return { ...result, issues: await this.annotateRepeats(anchorIssues(text, result.issues)) };
+
+    } catch (error) {
+      console.error('Correction API Error:', error);
+      throw error;
+    }
+  }
+
+  // 利用額の上限に達していたら、設定に従って BudgetExceededError を投げる
+  async assertWithinBudget(settings: Settings, text: string, mode: CorrectionMode): Promise<void> {
+    const status = checkBudget(await this.usage.summarize(), settings);
+    if (!status.exceeded) return;
+
+    // longOnly では長いメッセージの校正だけ続ける（書き換え・翻訳は止める）
+    if (status.action === 'longOnly' && mode === 'correct' && text.trim().length >= settings.budgetLongMessageLength) {
+      return;
+    }
+
+    console.log(`Budget exceeded (${status.exceeded}), action: ${status.action}`);
+    throw new BudgetExceededError(status.exceeded, status.action);
+  }
 
-      const requestBody: ClaudeAPIRequest = {
-        model: 'claude-haiku-4-5-20251001',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
+  // 複数タブからの同一リクエストは進行中の結果を共有し、呼び出し元ごとにキャンセルできるようにする
+  subscribe(key: string, settings: Settings, text: string, options: PromptOptions, requestId?: string): Promise<CorrectionResult> {
+    let entry = this.inFlight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const timeoutSeconds = settings.requestTimeoutSeconds;
+      const timer = setTimeout(() => {
+        controller.abort(new Error(`校正がタイムアウトしました（${timeoutSeconds}秒）`));
+      }, timeoutSeconds * 1000);
+
+      // オフセットがずれないよう、空白も含めて受け取ったテキストのまま送る
+      const promise: Promise<CorrectionResult> = this.requestCorrection(settings, text, options, controller.signal)
+        .then(async ({ result: corrected, cacheable }) => {
+          await this.breaker.recordSuccess();
+          if (cacheable) {
+            await this.cache.set(key, corrected);
           }
-        ],
-        tool_choice: {
-          type: 'tool',
-          name: 'correction_response'
-        },
-        tools: [
-          {
-            name: 'correction_response',
-            description: 'テキスト校正の結果を構造化された形式で返す',
-            input_schema: {
-              type: 'object',
-              properties: {
-                correctedText: {
-                  type: 'string',
-                  description: '校正後のテキスト'
-                },
-                issues: {
-                  type: 'array',
-                  description: '検出された問題のリスト',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: {
-                        type: 'string',
-                        enum: ['typo', 'nativeness'],
-                        description: '問題の種類'
-                      },
-                      original: {
-                        type: 'string',
-                        description: '修正前の文字列'
-                      },
-                      corrected: {
-                        type: 'string',
-                        description: '修正後の文字列'
-                      },
-                      reason: {
-                        type: 'string',
-                        description: '修正理由の説明(ここだけは日本語で、なんj民っぽく)'
-                      },
-                      severity: {
-                        type: 'number',
-                        minimum: 0.0,
-                        maximum: 1.0,
-                        description: 'ネイティブから見た不自然度 (0.0-1.0）'
-                      }
-                    },
-                    required: ['type', 'original', 'corrected', 'reason', 'severity']
-                  }
-                },
-                score: {
-                  type: 'number',
-                  minimum: 0.0,
-                  maximum: 1.0,
-                  description: '校正が必要な度合いのスコア（0.0-1.0）'
-                },
-                needsCorrection: {
-                  type: 'boolean',
-                  description: '校正が必要かどうか'
-                }
-              },
-              required: ['correctedText', 'issues', 'score', 'needsCorrection']
-            }
+          return corrected;
+        })
+        .catch(async error => {
+          // キャンセルは失敗として数えない（タイムアウトは数える）。
+          // 試行中（half-open）の状態は、どの結果でも必ず closed か open に戻す
+          const timedOut = controller.signal.aborted && !entry!.cancelled;
+          if (timedOut || (!controller.signal.aborted && isTransientError(error))) {
+            await this.breaker.recordFailure(error.message);
+          } else if (!controller.signal.aborted && error instanceof ProviderHTTPError) {
+            // 401・400 などはサーバーが応答しているので、APIは停止していない
+            await this.breaker.recordSuccess();
+          } else {
+            await this.breaker.abandonTrial();
           }
-        ]
+          throw error;
+        })
+        .finally(() => {
+          clearTimeout(timer);
+          this.inFlight.delete(key);
+        });
+
+      entry = { promise, controller, subscribers: 0, cancelled: false };
+      this.inFlight.set(key, entry);
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const release = () => {
+        if (settled) return false;
+        settled = true;
+        shared.subscribers--;
+        if (requestId) this.cancellers.delete(requestId);
+        return true;
       };
 
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true'
-        },
-        body: JSON.stringify(requestBody)
-      });
+      if (requestId) {
+        this.cancellers.set(requestId, () => {
+          if (!release()) return;
+          // 誰も待っていなければAPIリクエスト自体を中断する
+          if (shared.subscribers === 0) {
+            shared.cancelled = true;
+            shared.controller.abort(new Error('校正がキャンセルされました'));
+          }
+          reject(new Error('校正がキャンセルされました'));
+        });
+      }
 
-      console.log(response);
+      shared.promise.then(
+        value => release() && resolve(value),
+        error => release() && reject(error)
+      );
+    });
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`API Error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
+  cancelRequest(requestId: string): void {
+    const cancel = this.cancellers.get(requestId);
+    if (cancel) {
+      console.log('Cancelling correction request:', requestId);
+      cancel();
+    }
+  }
+
+  async annotateRepeats(issues: CorrectionIssue[]): Promise<CorrectionIssue[]> {
+    try {
+      if (!this.mistakeCounts) {
+        this.mistakeCounts = this.history.list().then(countMistakes);
       }
+      const counts = await this.mistakeCounts;
+      return issues.map(issue => {
+        const repeatCount = counts.get(mistakeKey(issue.original, issue.corrected)) || 0;
+        return repeatCount > 0 ? { ...issue, repeatCount } : issue;
+      });
+    } catch (error) {
+      // 履歴が読めなくても校正結果は返す
+      console.error('Failed to load mistake history:', error);
+      this.mistakeCounts = null;
+      return issues;
+    }
+  }
+
+  async recordHistory(entry: HistoryEntry): Promise<void> {
+    const settings = await loadSettings();
+    if (!settings.historyEnabled) return;
+
+    const definition = PROVIDERS[settings.providerId];
+    await this.history.add({
+      ...entry,
+      providerId: settings.providerId,
+      model: settings.model || definition.defaultModel
+    });
+    const purged = await this.history.applyRetention(settings.historyRetentionDays);
+
+    if (purged > 0) {
+      this.mistakeCounts = null;
+    } else if (this.mistakeCounts) {
+      const counts = await this.mistakeCounts;
+      countMistakes([entry]).forEach((count, key) => counts.set(key, (counts.get(key) || 0) + count));
+    }
+  }
 
-      const data: ClaudeAPIResponse = await response.json();
-      return this.parseStructuredResponse(data);
+  // APIキーは同期せず local に保存（保管庫が有効ならロック解除したものを使う）
+  async getApiKey(storageKey: string | null): Promise<string | undefined> {
+    if (!storageKey) return undefined;
 
+    try {
+      return await this.vault.getApiKey(storageKey);
     } catch (error) {
-      console.error('Claude API Error:', error);
+      if (error instanceof VaultLockedError) {
+        await this.openUnlockWindow();
+      }
       throw error;
     }
   }
 
-  createCorrectionPrompt(text: string): string {
+  // Slack のページからは読めないように、パスフレーズは拡張機能のウィンドウで入力してもらう
+  async openUnlockWindow(): Promise<void> {
+    if (this.unlockWindowId !== null) {
+      try {
+        await chrome.windows.update(this.unlockWindowId, { focused: true });
+        return;
+      } catch {
+        // 閉じられていた
+        this.unlockWindowId = null;
+      }
+    }
+
+    const created = await chrome.windows.create({
+      url: chrome.runtime.getURL('unlock.html'),
+      type: 'popup',
+      width: 400,
+      height: 280
+    });
+    this.unlockWindowId = created?.id ?? null;
+  }
+
+  async lockVault(): Promise<void> {
+    console.log('Locking API key vault');
+    await this.vault.lock();
+  }
+
+  // 入力中の値（省略時は保存済みの設定）でAPIキーとエンドポイントを確認する
+  async validateKey(request: ValidateKeyRequest): Promise<void> {
+    const settings = await loadSettings();
+    const providerId = request.providerId ?? settings.providerId;
+    const definition = PROVIDERS[providerId];
+    const apiKey = request.apiKey || await this.getApiKey(definition.apiKeyStorageKey);
+
+    const provider = createProvider(providerId, {
+      baseUrl: (request.baseUrl ?? settings.providerBaseUrl) || definition.defaultBaseUrl,
+      apiKey
+    });
+
+    if (provider.requiresApiKey && !apiKey) {
+      throw new Error('APIキーが設定されていません。拡張機能のオプションページで設定してください。');
+    }
+
+    await provider.validateKey(AbortSignal.timeout(settings.requestTimeoutSeconds * 1000));
+  }
+
+  // 応答を解釈できなかった場合の結果は、次回も問い合わせ直すよう cacheable: false にする
+  async requestCorrection(
+    settings: Settings,
+    text: string,
+    options: PromptOptions,
+    signal?: AbortSignal
+  ): Promise<{ result: CorrectionResult; cacheable: boolean }> {
+    const definition = PROVIDERS[settings.providerId];
+    const apiKey = await this.getApiKey(definition.apiKeyStorageKey);
+
+    const provider = createProvider(settings.providerId, {
+      baseUrl: settings.providerBaseUrl || definition.defaultBaseUrl,
+      apiKey
+    });
+
+    if (provider.requiresApiKey && !apiKey) {
+      throw new Error('APIキーが設定されていません。拡張機能のオプションページで設定してください。');
+    }
+
+    // コード・URL・メンション・絵文字はプレースホルダーに置き換えてから送る
+    const masked = maskProtectedSpans(text);
+    const prompt = options.mode === 'translate'
+      ? this.createTranslationPrompt(masked.text, options.targetLanguage, settings.glossary, options.context)
+      : options.mode === 'rewrite'
+        ? this.createRewritePrompt(masked.text, options.toneTarget, settings.glossary, options.context)
+        : this.createCorrectionPrompt(masked.text, options.toneTarget, settings.glossary, options.context);
+
+    // 429・5xx・ネットワークエラーはバックオフしてリトライ
+    const model = settings.model || definition.defaultModel;
+    const { result, usage } = await withRetry(() => provider.correct({
+      prompt,
+      model,
+      maxTokens: settings.maxTokens,
+      signal
+    }), { ...DEFAULT_RETRY_OPTIONS, signal });
+
+    // 後処理で失敗してもトークンは消費しているので先に記録する
+    if (usage) {
+      await this.usage.record(model, usage, settings.modelPrices)
+        .catch(error => console.error('Usage record error:', error));
+    }
+
+    if (options.mode === 'translate') {
+      // 翻訳は原文と比較できないので用語集の後処理はせず、保護スパンが残っていることだけ確認する
+      if (!preservesPlaceholders(result.correctedText, masked)) {
+        throw new Error('翻訳結果でコード・URL・メンションなどが失われました。もう一度お試しください。');
+      }
+      return { result: unmaskCorrectionResult({ ...result, issues: [] }, masked), cacheable: !isFallbackResult(result) };
+    }
+
+    // モデルが用語集を無視した場合に備えて、マスクしたまま（コードやURLを対象外にして）後処理する
+    const enforced = enforceGlossary(result, masked.text, settings.glossary);
+
+    return { result: unmaskCorrectionResult(enforced, masked), cacheable: !isFallbackResult(result) };
+  }
+
+  createCorrectionPrompt(text: string, toneTarget: ToneTarget = 'none', glossary?: Glossary, context: PromptContext | null = null): string {
+    const tone = TONE_INSTRUCTIONS[toneTarget];
+    const toneInstruction = tone
+      ? `5. このチャンネルでは${tone}が求められています。トーンが合っていない部分も "nativeness" として指摘してください。\n`
+      : '';
+    const glossaryInstruction = glossary ? formatGlossaryForPrompt(glossary) : '';
+
     return `以下のSlackメッセージを校正してください。
 
-原文: "${text}"
+${formatContextForPrompt(context)}原文: "${text}"
 
 校正の観点：
 1. 誤字脱字の修正 (type: "typo")
 2. ネイティブがする言い回しかどうか。(type: "nativeness")
 3. ネイティブスピーカーとして自然に感じる限り、指摘された部分以外は元の文章のもののまま文章を出力する(OK->Okay, I am -> I'm などどっちでもいい場合は勝手に変えない)。
-
-correction_responseツールを使用して構造化された結果を返してください
+4. ⟦P1⟧ のようなプレースホルダーはコード・URL・メンション・絵文字なので、変更・削除・翻訳せずそのまま残す。プレースホルダーを含む部分は指摘しない。
+${toneInstruction}
+${glossaryInstruction}correction_responseツールを使用して構造化された結果を返してください
 
 ネイティブから見た不自然度(1.0が最も不自然, 0.0が自然)で並び替えてください。
 `;
   }
 
-  parseStructuredResponse(data: ClaudeAPIResponse): CorrectionResult {
-    try {
-      console.log('Raw API response:', data);
-
-      // Structured Outputsの場合、tool_useの結果を確認
-      if (data.content && data.content.length > 0) {
-        const toolUse = data.content.find(item => item.type === 'tool_use');
-
-        if (toolUse && toolUse.name === 'correction_response' && toolUse.input) {
-          const input = toolUse.input;
-
-          // スキーマ通りのデータを返す
-          return {
-            correctedText: input.correctedText || '',
-            issues: Array.isArray(input.issues) ? input.issues : [],
-            score: typeof input.score === 'number' ? input.score : 0,
-            needsCorrection: Boolean(input.needsCorrection)
-          };
-        }
+  createRewritePrompt(text: string, toneTarget: ToneTarget, glossary?: Glossary, context: PromptContext | null = null): string {
+    const glossaryInstruction = glossary ? formatGlossaryForPrompt(glossary) : '';
 
-        // テキストレスポンスの場合（フォールバック）
-        const textContent = data.content.find(item => item.type === 'text');
-        if (textContent && textContent.text) {
-          return this.parseResponse(textContent.text);
-        }
-      }
+    return `以下のSlackメッセージを${TONE_INSTRUCTIONS[toneTarget]}に書き換えてください。
 
-      throw new Error('Invalid response structure');
+${formatContextForPrompt(context)}原文: "${text}"
 
-    } catch (error) {
-      console.error('Structured response parsing error:', error);
-      // フォールバック
-      return {
-        correctedText: '',
-        issues: [],
-        score: 0,
-        needsCorrection: false
-      };
-    }
+書き換えの方針：
+1. 意味・事実・依頼内容は変えず、言語も原文のままにする
+2. 書き換えた箇所ごとに issue を返す。type はトーンの変更なら "tone"、敬語・丁寧さの変更なら "politeness"、簡潔さや構成の変更なら "style"、誤字の修正なら "typo"
+3. severity は元の表現がどれだけ目標のトーンから外れているか (0.0-1.0)
+4. ⟦P1⟧ のようなプレースホルダーはコード・URL・メンション・絵文字なので、変更・削除・翻訳せずそのまま残す。プレースホルダーを含む部分は書き換えない。
+
+${glossaryInstruction}correction_responseツールを使用して構造化された結果を返してください。correctedText には書き換え後の全文を入れてください。
+`;
   }
 
-  parseResponse(responseText: string): CorrectionResult {
-    try {
-      // JSONを抽出（マークダウンコードブロックがある場合に対応）
-      const jsonMatch = responseText.match(/```json\n?([\s\S]*?)\n?```/) ||
-                       responseText.match(/\{[\s\S]*\}/);
-
-      if (jsonMatch) {
-        const jsonText = jsonMatch[1] || jsonMatch[0];
-        const parsed = JSON.parse(jsonText);
-
-        // 必要なプロパティが存在するかチェック
-        return {
-          correctedText: parsed.correctedText || '',
-          issues: Array.isArray(parsed.issues) ? parsed.issues : [],
-          score: typeof parsed.score === 'number' ? parsed.score : 0,
-          needsCorrection: Boolean(parsed.needsCorrection)
-        };
-      } else {
-        throw new Error('Invalid response format');
-      }
-    } catch (error) {
-      console.error('Response parsing error:', error);
-      // フォールバック：基本的なレスポンス
-      return {
-        correctedText: responseText,
-        issues: [],
-        score: 0,
-        needsCorrection: false
-      };
-    }
+  createTranslationPrompt(text: string, targetLanguage: string, glossary?: Glossary, context: PromptContext | null = null): string {
+    const glossaryInstruction = glossary ? formatGlossaryForPrompt(glossary) : '';
+
+    return `以下のSlackメッセージを、${targetLanguage}のネイティブスピーカーが同僚に送るような自然な${targetLanguage}に翻訳してください。
+
+${formatContextForPrompt(context)}原文: "${text}"
+
+翻訳の方針：
+1. 直訳ではなく、意味・ニュアンス・丁寧さを保った自然な表現にする
+2. 原文にない情報を足したり、省いたりしない
+3. ⟦P1⟧ のようなプレースホルダーはコード・URL・メンション・絵文字なので、変更・削除・翻訳せず同じ位置関係のまま残す
+4. issues は空の配列、score は 1.0、needsCorrection は true にする
+
+${glossaryInstruction}correction_responseツールを使用して構造化された結果を返してください。correctedText には翻訳後の全文を入れてください。
+`;
   }
 }
 
 // サービスワーカー初期化
 const claudeService = new ClaudeAPIService();
 
+// 一定時間使われなかったAPIキーをロックする
+chrome.alarms.onAlarm.addListener(alarm => {
+  if (alarm.name === AUTO_LOCK_ALARM) {
+    claudeService.lockVault().catch(error => console.error('Vault lock error:', error));
+  }
+});
+
 // 拡張機能インストール時の初期設定
 chrome.runtime.onInstalled.addListener(() => {
   console.log('Slack Message Correction extension installed');
-});
\ No newline at end of file
+  // 旧バージョンの設定をマイグレーション
+  loadSettings().catch(error => console.error('Settings migration error:', error));
+});
@@ -0,0 +1,101 @@
+// 校正結果のキャッシュ（chrome.storage.session に保存し、サービスワーカーの再起動後も保持）
+
+import type { Glossary } from './glossary';
+import type { PromptContext } from './promptContext';
+import { CorrectionResult } from './providers';
+
+// エントリごとに別のキーで保存する（同時に書き込んでも他のエントリを上書きしない）
+const KEY_PREFIX = 'correctionCache:';
+const TTL_MS = 30 * 60 * 1000;
+const MAX_ENTRIES = 100;
+
+interface CacheEntry {
+  value: CorrectionResult;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface CacheKeyParts {
+  text: string;
+  providerId: string;
+  baseUrl: string;
+  model: string;
+  promptVersion: number;
+  // ポリシーでトーンが異なれば結果も異なる
+  mode: string;
+  toneTarget: string;
+  targetLanguage: string;
+  glossary: Glossary;
+  // 会話の文脈が異なれば適切な言い回しも異なる（プロンプトに含める、上限内に収めた後のもの）
+  context: PromptContext | null;
+}
+
+// 前後の空白・改行コード・連続する空白の違いだけのテキストは同じキーにする
+// （キーにだけ使い、モデルには受け取ったテキストをそのまま送る。オフセットは呼び出し元で再アンカーする）
+export function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\r\n?/g, '\n').trim().replace(/[ \t]+/g, ' ');
+}
+
+export async function createCacheKey(parts: CacheKeyParts): Promise<string> {
+  const source = JSON.stringify([
+    normalizeText(parts.text),
+    parts.providerId,
+    parts.baseUrl,
+    parts.model,
+    parts.promptVersion,
+    parts.mode,
+    parts.toneTarget,
+    parts.targetLanguage,
+    parts.glossary,
+    parts.context
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class CorrectionCache {
+  private async loadAll(): Promise<Record<string, CacheEntry>> {
+    const all = await chrome.storage.session.get(null);
+    const entries: Record<string, CacheEntry> = {};
+    Object.keys(all)
+      .filter(key => key.startsWith(KEY_PREFIX))
+      .forEach(key => { entries[key] = all[key] as CacheEntry; });
+    return entries;
+  }
+
+  async get(key: string): Promise<CorrectionResult | null> {
+    const storageKey = KEY_PREFIX + key;
+    const result = await chrome.storage.session.get([storageKey]);
+    const entry = result[storageKey] as CacheEntry | undefined;
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > TTL_MS) {
+      await chrome.storage.session.remove(storageKey);
+      return null;
+    }
+
+    await chrome.storage.session.set({ [storageKey]: { ...entry, lastAccessedAt: Date.now() } });
+    return entry.value;
+  }
+
+  async set(key: string, value: CorrectionResult): Promise<void> {
+    const now = Date.now();
+    await chrome.storage.session.set({ [KEY_PREFIX + key]: { value, createdAt: now, lastAccessedAt: now } });
+
+    // 期限切れと、上限を超えた分（最後に使われた時刻が古いもの）を削除
+    const entries = await this.loadAll();
+    const live = Object.keys(entries).filter(k => now - entries[k].createdAt <= TTL_MS);
+    const expired = Object.keys(entries).filter(k => !live.includes(k));
+    const evicted = live
+      .sort((a, b) => entries[a].lastAccessedAt - entries[b].lastAccessedAt)
+      .slice(0, Math.max(0, live.length - MAX_ENTRIES));
+
+    if (expired.length + evicted.length > 0) {
+      await chrome.storage.session.remove([...expired, ...evicted]);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await chrome.storage.session.remove(Object.keys(await this.loadAll()));
+  }
+}
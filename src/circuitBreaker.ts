@@ -0,0 +1,119 @@
+// 連続して失敗した場合にAPI呼び出しを一時停止するサーキットブレーカー
+//
+// API障害時に毎回タイムアウトまで待たされないよう、一定回数失敗したら
+// クールダウンの間は即座に失敗させる。状態はサービスワーカーの再起動後も保持する。
+
+const STORAGE_KEY = 'circuitBreaker';
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 60 * 1000;
+// 試行中のままサービスワーカーが停止した場合などに備え、これを過ぎたら次の試行を通す
+// （リクエストのタイムアウトの上限 120 秒より長くする）
+const TRIAL_TIMEOUT_MS = 3 * 60 * 1000;
+
+export interface CircuitState {
+  // closed: 通常 / open: 停止中 / half-open: 試行中（1回だけ通す）
+  status: 'closed' | 'open' | 'half-open';
+  failures: number;
+  // open: 再開する時刻 / half-open: 試行を打ち切って次の試行を通す時刻
+  retryAt: number | null;
+  lastError: string | null;
+}
+
+const INITIAL_STATE: CircuitState = {
+  status: 'closed',
+  failures: 0,
+  retryAt: null,
+  lastError: null
+};
+
+export class CircuitOpenError extends Error {
+  constructor(readonly state: CircuitState) {
+    const seconds = Math.max(0, Math.ceil(((state.retryAt ?? Date.now()) - Date.now()) / 1000));
+    super(state.status === 'half-open'
+      ? `校正APIが復旧したか確認しています（連続${state.failures}回失敗）。確認が終わるまでお待ちください。`
+      : `校正APIの呼び出しを一時停止しています（連続${state.failures}回失敗）。${seconds}秒後に再開します。`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  // 状態の読み取りから書き込みまでを1つずつ実行するための待ち行列。
+  // half-open で同時に来たリクエストが両方とも「試行前」の状態を読んで通ってしまわないよう、
+  // 状態を変更する処理は最初の await より前にここへ並べる
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async getState(): Promise<CircuitState> {
+    const result = await chrome.storage.session.get([STORAGE_KEY]);
+    return { ...INITIAL_STATE, ...(result[STORAGE_KEY] as Partial<CircuitState> || {}) };
+  }
+
+  private async setState(state: CircuitState): Promise<void> {
+    await chrome.storage.session.set({ [STORAGE_KEY]: state });
+  }
+
+  // 停止中なら CircuitOpenError を投げる。クールダウン後は half-open にして1回だけ通す
+  assertCanRequest(): Promise<void> {
+    return this.exclusive(async () => {
+      const state = await this.getState();
+      if (state.status === 'closed') return;
+
+      if (state.retryAt !== null && Date.now() >= state.retryAt) {
+        await this.setState({ ...state, status: 'half-open', retryAt: Date.now() + TRIAL_TIMEOUT_MS });
+        return;
+      }
+
+      throw new CircuitOpenError(state);
+    });
+  }
+
+  recordSuccess(): Promise<void> {
+    return this.exclusive(async () => {
+      const state = await this.getState();
+      if (state.status !== 'closed' || state.failures > 0) {
+        await this.setState(INITIAL_STATE);
+      }
+    });
+  }
+
+  recordFailure(error: string): Promise<void> {
+    return this.exclusive(() => this.applyFailure(error));
+  }
+
+  private async applyFailure(error: string): Promise<void> {
+    const state = await this.getState();
+    const failures = state.failures + 1;
+    const shouldOpen = state.status === 'half-open' || failures >= FAILURE_THRESHOLD;
+
+    if (shouldOpen) {
+      console.warn(`Circuit breaker opened after ${failures} failure(s):`, error);
+    }
+
+    await this.setState({
+      status: shouldOpen ? 'open' : 'closed',
+      failures,
+      retryAt: shouldOpen ? Date.now() + COOLDOWN_MS : null,
+      lastError: error
+    });
+  }
+
+  // 試行がAPIの状態を確かめられずに終わった場合（キャンセル・APIキー未設定など）は、
+  // 次のリクエストで改めて試行できるよう open（再開時刻は現在）に戻す
+  abandonTrial(): Promise<void> {
+    return this.exclusive(async () => {
+      const state = await this.getState();
+      if (state.status === 'half-open') {
+        await this.setState({ ...state, status: 'open', retryAt: Date.now() });
+      }
+    });
+  }
+
+  reset(): Promise<void> {
+    return this.exclusive(() => this.setState(INITIAL_STATE));
+  }
+}
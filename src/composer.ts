@@ -0,0 +1,320 @@
+// Slack（Quill）のメッセージ入力欄を構造化ドキュメントとして扱うシリアライザ
+//
+// 校正はプレーンテキストに対して行われるため、ここでプレーンテキストとの対応を取り、
+// 修正はテキスト部分のみに適用する。メンション・絵文字・リンク・コードなどの
+// エンティティは元のDOMノードのまま保持される。
+
+import { diffChars } from 'diff';
+
+export interface TextRun {
+  type: 'text';
+  text: string;
+  // 太字・斜体などの書式要素（外側から順、子を持たない複製）
+  marks: Element[];
+}
+
+export interface EntityRun {
+  type: 'entity';
+  // プレーンテキスト上での表示（例: "@name", ":smile:"）
+  text: string;
+  node: Node;
+  marks: Element[];
+}
+
+export type Run = TextRun | EntityRun;
+
+export interface Block {
+  // <p> や <li> などの行要素（null の場合はインラインのまま配置）
+  wrapper: Element | null;
+  // <ol> / <ul> / <blockquote> などのコンテナ要素
+  container: Element | null;
+  runs: Run[];
+}
+
+export interface ComposerDocument {
+  blocks: Block[];
+}
+
+// テキストとして校正してはいけないインライン要素
+const ENTITY_SELECTOR = [
+  'a',
+  'code',
+  'img',
+  'ts-mention',
+  'ts-channel',
+  'ts-broadcast',
+  'ts-usergroup',
+  '[data-stringify-type]',
+  '.c-member_slug',
+  '.c-channel_entity',
+  '.c-emoji',
+  '[contenteditable="false"]'
+].join(',');
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+const CONTAINER_TAGS = new Set(['OL', 'UL', 'BLOCKQUOTE']);
+const ATOMIC_BLOCK_TAGS = new Set(['PRE']);
+
+// エンティティ内のノードかどうか（インライン表示のオーバーレイなどで使う）
+export function isInsideEntity(node: Node, root: Element): boolean {
+  let element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+  while (element && element !== root) {
+    if (element.matches(ENTITY_SELECTOR)) return true;
+    element = element.parentElement;
+  }
+  return false;
+}
+
+function isBlockLevel(node: Node): boolean {
+  if (node.nodeType !== Node.ELEMENT_NODE) return false;
+  const tag = (node as Element).tagName;
+  return BLOCK_TAGS.has(tag) || CONTAINER_TAGS.has(tag) || ATOMIC_BLOCK_TAGS.has(tag);
+}
+
+function entityText(element: Element): string {
+  if (element.tagName === 'IMG') {
+    return element.getAttribute('data-stringify-emoji') ||
+           element.getAttribute('alt') ||
+           '';
+  }
+  return element.textContent || '';
+}
+
+function serializeInline(nodes: Node[], marks: Element[], runs: Run[]): void {
+  nodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      runs.push({ type: 'text', text: (node as Text).data, marks });
+      return;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+
+    if (element.tagName === 'BR') {
+      // 行末の <br> は Quill の空行用プレースホルダー
+      runs.push({ type: 'entity', text: element.nextSibling ? '\n' : '', node: element.cloneNode(true), marks });
+    } else if (element.matches(ENTITY_SELECTOR)) {
+      runs.push({ type: 'entity', text: entityText(element), node: element.cloneNode(true), marks });
+    } else {
+      serializeInline(Array.from(element.childNodes), [...marks, element.cloneNode(false) as Element], runs);
+    }
+  });
+}
+
+function collectBlocks(parent: Node, container: Element | null, blocks: Block[]): void {
+  const children = Array.from(parent.childNodes);
+  const hasBlockChildren = children.some(isBlockLevel);
+  let inline: Node[] = [];
+
+  const flush = () => {
+    if (inline.length === 0) return;
+    const runs: Run[] = [];
+    serializeInline(inline, [], runs);
+    blocks.push({ wrapper: null, container, runs });
+    inline = [];
+  };
+
+  children.forEach(child => {
+    if (!isBlockLevel(child)) {
+      // ブロック間の改行・空白のみのテキストノードは無視する
+      if (hasBlockChildren && child.nodeType === Node.TEXT_NODE && !(child as Text).data.trim()) {
+        return;
+      }
+      inline.push(child);
+      return;
+    }
+
+    flush();
+    const element = child as Element;
+
+    if (ATOMIC_BLOCK_TAGS.has(element.tagName)) {
+      // コードブロックは丸ごとエンティティとして保持
+      blocks.push({
+        wrapper: null,
+        container,
+        runs: [{ type: 'entity', text: element.textContent || '', node: element.cloneNode(true), marks: [] }]
+      });
+    } else if (CONTAINER_TAGS.has(element.tagName) && Array.from(element.childNodes).some(isBlockLevel)) {
+      collectBlocks(element, element.cloneNode(false) as Element, blocks);
+    } else {
+      const runs: Run[] = [];
+      serializeInline(Array.from(element.childNodes), [], runs);
+      blocks.push({ wrapper: element.cloneNode(false) as Element, container, runs });
+    }
+  });
+
+  flush();
+}
+
+export function serializeComposer(editor: HTMLElement): ComposerDocument {
+  const blocks: Block[] = [];
+  collectBlocks(editor, null, blocks);
+  return { blocks };
+}
+
+export function toPlainText(doc: ComposerDocument): string {
+  return doc.blocks
+    .map(block => block.runs.map(run => run.text).join(''))
+    .join('\n');
+}
+
+function appendRuns(parent: Node, runs: Run[]): void {
+  // 書式要素を共有する連続したランは同じ要素の中にまとめる
+  const stack: Array<{ mark: Element; element: Element }> = [];
+
+  runs.forEach(run => {
+    let depth = 0;
+    while (depth < stack.length && depth < run.marks.length && stack[depth].mark === run.marks[depth]) {
+      depth++;
+    }
+    stack.length = depth;
+
+    run.marks.slice(depth).forEach(mark => {
+      const element = mark.cloneNode(false) as Element;
+      (stack.length > 0 ? stack[stack.length - 1].element : parent).appendChild(element);
+      stack.push({ mark, element });
+    });
+
+    const target = stack.length > 0 ? stack[stack.length - 1].element : parent;
+    target.appendChild(run.type === 'text' ? document.createTextNode(run.text) : run.node.cloneNode(true));
+  });
+}
+
+export function deserializeComposer(doc: ComposerDocument): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  let currentContainer: Element | null = null;
+  let currentContainerElement: Element | null = null;
+
+  doc.blocks.forEach(block => {
+    let parent: Node = fragment;
+
+    if (block.container) {
+      if (block.container !== currentContainer) {
+        currentContainer = block.container;
+        currentContainerElement = block.container.cloneNode(false) as Element;
+        fragment.appendChild(currentContainerElement);
+      }
+      parent = currentContainerElement!;
+    } else {
+      currentContainer = null;
+      currentContainerElement = null;
+    }
+
+    if (block.wrapper) {
+      const wrapper = block.wrapper.cloneNode(false) as Element;
+      appendRuns(wrapper, block.runs);
+      // 空行は Quill と同じく <br> で高さを保つ
+      if (!wrapper.hasChildNodes()) {
+        wrapper.appendChild(document.createElement('br'));
+      }
+      parent.appendChild(wrapper);
+    } else {
+      appendRuns(parent, block.runs);
+    }
+  });
+
+  return fragment;
+}
+
+interface Segment {
+  kind: 'text' | 'entity' | 'separator';
+  blockIndex: number;
+  runIndex: number;
+}
+
+// プレーンテキストの修正結果をテキストランにのみ反映する
+// エンティティやブロック区切りにかかる変更は無視され、元のノードが保持される
+export function applyPlainText(doc: ComposerDocument, correctedText: string): ComposerDocument {
+  const segments: Segment[] = [];
+  // プレーンテキストの各文字がどのセグメントに属するか
+  const owners: number[] = [];
+
+  doc.blocks.forEach((block, blockIndex) => {
+    if (blockIndex > 0) {
+      segments.push({ kind: 'separator', blockIndex: blockIndex - 1, runIndex: -1 });
+      owners.push(segments.length - 1);
+    }
+    block.runs.forEach((run, runIndex) => {
+      segments.push({ kind: run.type, blockIndex, runIndex });
+      for (let i = 0; i < run.text.length; i++) {
+        owners.push(segments.length - 1);
+      }
+    });
+  });
+
+  const outputs: string[] = segments.map(() => '');
+  // セグメントの直前に挿入する新しいテキスト（segments.length は末尾）
+  const insertions: string[] = new Array(segments.length + 1).fill('');
+
+  const insertAt = (position: number, value: string) => {
+    // ブロックの分割はサポートしないため、挿入された改行は空白にする
+    const text = value.replace(/\n/g, ' ');
+    const before = position > 0 ? owners[position - 1] : -1;
+    if (before >= 0 && segments[before].kind === 'text') {
+      outputs[before] += text;
+      return;
+    }
+    const after = position < owners.length ? owners[position] : segments.length;
+    if (after < segments.length && segments[after].kind === 'text') {
+      outputs[after] += text;
+      return;
+    }
+    insertions[after] += text;
+  };
+
+  const isInsideEntity = (position: number) =>
+    position > 0 && position < owners.length &&
+    owners[position - 1] === owners[position] &&
+    segments[owners[position]].kind === 'entity';
+
+  let position = 0;
+  // 直前の削除がエンティティにかかっていた場合、それを置き換える挿入も無視する
+  let removedEntity = false;
+  diffChars(toPlainText(doc), correctedText).forEach(part => {
+    const value = part.value || '';
+    if (part.added) {
+      if (!removedEntity && !isInsideEntity(position)) {
+        insertAt(position, value);
+      }
+      return;
+    }
+
+    removedEntity = false;
+    for (let i = 0; i < value.length; i++) {
+      const owner = owners[position + i];
+      if (segments[owner].kind !== 'text') {
+        removedEntity = removedEntity || Boolean(part.removed);
+      } else if (!part.removed) {
+        outputs[owner] += value[i];
+      }
+    }
+    position += value.length;
+  });
+
+  const blocks: Block[] = doc.blocks.map(block => ({ ...block, runs: [] as Run[] }));
+
+  segments.forEach((segment, index) => {
+    const block = blocks[segment.blockIndex];
+    if (insertions[index]) {
+      // 区切りの直前 = ブロックの末尾への挿入
+      block.runs.push({ type: 'text', text: insertions[index], marks: [] });
+    }
+    if (segment.kind === 'separator') return;
+
+    const run = doc.blocks[segment.blockIndex].runs[segment.runIndex];
+    if (run.type === 'entity') {
+      block.runs.push(run);
+    } else if (outputs[index]) {
+      block.runs.push({ ...run, text: outputs[index] });
+    }
+  });
+
+  if (insertions[segments.length]) {
+    if (blocks.length === 0) {
+      blocks.push({ wrapper: null, container: null, runs: [] });
+    }
+    blocks[blocks.length - 1].runs.push({ type: 'text', text: insertions[segments.length], marks: [] });
+  }
+
+  return { blocks };
+}
@@ -0,0 +1,120 @@
+// 入力欄ごとの送信・保存ボタンの対応付け
+//
+// Slack では複数の入力欄が同時に開いていることがある（チャンネルの入力欄・スレッドの
+// サイドパネル・既存メッセージの編集欄）。入力欄とボタンの対応はページ全体ではなく、
+// 他の入力欄を含まない範囲の祖先要素の中で取る。
+
+// main: チャンネル・DMの入力欄 / thread: スレッドの返信欄 / edit: 既存メッセージの編集欄
+export type ComposerKind = 'main' | 'thread' | 'edit';
+
+const EDITOR_SELECTOR = '.ql-editor';
+
+// 実際のSlack要素に基づくセレクター（チャンネル・スレッド共通）
+const SEND_BUTTON_SELECTORS = [
+  '[data-qa="texty_send_button"]',
+  '[aria-label="今すぐ送信する"]',
+  '[aria-label="Send"]',
+  '.c-wysiwyg_container__button--send',
+  'button[aria-label*="送信"]',
+  'button[aria-label*="Send"]',
+  '[data-qa="send_message_button"]'
+];
+
+// メッセージ編集欄
+const EDIT_CONTAINER_SELECTORS = [
+  '[data-qa="message_editor"]',
+  '.c-message_kit__editor',
+  '.c-message__editor',
+  '.p-message_edit'
+];
+
+// 編集欄の保存ボタン。「後で読む」などの保存ボタンと区別するため、編集欄の中でのみ探す
+const SAVE_BUTTON_SELECTORS = [
+  '[data-qa="wysiwyg-container_edit_save_button"]',
+  '[data-qa="message_editor_save_button"]',
+  'button[aria-label="保存する"]',
+  'button[aria-label="Save"]',
+  'button.c-button--primary'
+];
+
+const THREAD_CONTAINER_SELECTORS = [
+  '[data-qa="threads_flexpane"]',
+  '.p-threads_flexpane',
+  '[data-qa="thread_footer"]',
+  '.p-threads_footer__input'
+];
+
+const SEND_BUTTON_SELECTOR = SEND_BUTTON_SELECTORS.join(', ');
+const EDIT_CONTAINER_SELECTOR = EDIT_CONTAINER_SELECTORS.join(', ');
+const SAVE_BUTTON_SELECTOR = SAVE_BUTTON_SELECTORS.join(', ');
+const THREAD_CONTAINER_SELECTOR = THREAD_CONTAINER_SELECTORS.join(', ');
+
+// 要素を含む入力欄本体（入力欄の外なら null）
+export function findComposerEditor(element: Element | null): HTMLElement | null {
+  if (!element) return null;
+  return (element.closest(EDITOR_SELECTOR) ||
+          element.closest('[data-qa="message_input"]')?.querySelector(EDITOR_SELECTOR) ||
+          null) as HTMLElement | null;
+}
+
+export function getComposerKind(editor: Element): ComposerKind {
+  if (editor.closest(EDIT_CONTAINER_SELECTOR)) return 'edit';
+  if (editor.closest(THREAD_CONTAINER_SELECTOR)) return 'thread';
+  return 'main';
+}
+
+function controlSelectorFor(editor: Element): string {
+  return getComposerKind(editor) === 'edit' ? SAVE_BUTTON_SELECTOR : SEND_BUTTON_SELECTOR;
+}
+
+// 入力欄に対応する送信（編集欄では保存）ボタン
+export function findSendControl(editor: HTMLElement): HTMLButtonElement | null {
+  const selector = controlSelectorFor(editor);
+
+  for (let ancestor = editor.parentElement; ancestor && ancestor !== document.body; ancestor = ancestor.parentElement) {
+    // 他の入力欄まで含む範囲に広がったら、それ以上は探さない
+    if (ancestor.querySelectorAll(EDITOR_SELECTOR).length > 1) break;
+
+    const control = Array.from(ancestor.querySelectorAll(selector)).find(isSendControl);
+    if (control) return control as HTMLButtonElement;
+  }
+  return null;
+}
+
+// ボタンに対応する入力欄（判別できない場合は null）
+export function findEditorForControl(control: Element): HTMLElement | null {
+  for (let ancestor = control.parentElement; ancestor && ancestor !== document.body; ancestor = ancestor.parentElement) {
+    const editors = ancestor.querySelectorAll(EDITOR_SELECTOR);
+    if (editors.length === 1) {
+      const editor = editors[0] as HTMLElement;
+      // 保存ボタンの候補は編集欄のものだけ、送信ボタンの候補はそれ以外のものだけ
+      return control.matches(controlSelectorFor(editor)) ? editor : null;
+    }
+    if (editors.length > 1) return null;
+  }
+  return null;
+}
+
+export function isSendControl(element: Element): boolean {
+  if (element.matches(SEND_BUTTON_SELECTOR)) return true;
+  return element.matches(SAVE_BUTTON_SELECTOR) && element.closest(EDIT_CONTAINER_SELECTOR) !== null;
+}
+
+// container の中（container 自身が編集欄の中にある場合はその編集欄）の送信・保存ボタン
+export function findSendControls(container: Document | Element): HTMLButtonElement[] {
+  const controls = Array.from(container.querySelectorAll(SEND_BUTTON_SELECTOR));
+
+  const editContainers = Array.from(container.querySelectorAll(EDIT_CONTAINER_SELECTOR));
+  const enclosing = container instanceof Element ? container.closest(EDIT_CONTAINER_SELECTOR) : null;
+  if (enclosing) editContainers.push(enclosing);
+
+  editContainers.forEach(editContainer => {
+    editContainer.querySelectorAll(EDITOR_SELECTOR).forEach(editor => {
+      const control = findSendControl(editor as HTMLElement);
+      if (control) controls.push(control);
+    });
+  });
+
+  // 重複を除去
+  return [...new Set(controls)] as HTMLButtonElement[];
+}
@@ -1,44 +1,74 @@
 import { diffChars } from 'diff';
+import { applyPlainText, deserializeComposer, serializeComposer, toPlainText } from './composer';
+import { findComposerEditor, findEditorForControl, findSendControl, findSendControls, getComposerKind, isSendControl } from './composerScope';
+import type { CircuitState } from './circuitBreaker';
+import type { HistoryAction, HistoryEntry } from './historyStore';
+import { InlineLinter } from './inlineLint';
+import { checkLocally } from './localRules';
+import { ConversationContext, ResolvedPolicy, ToneTarget, parseSlackUrl, parseWorkspaceDomain, resolvePolicy } from './policies';
+import { PromptContext, extractRecentMessages, fitToTokenBudget } from './promptContext';
+import { CorrectionMode, ISSUE_TYPE_LABELS, sendRuntimeMessage } from './protocol';
+import type { CorrectionIssue, CorrectionResult } from './providers';
+import { SendKeyDetector, classifyEnter, isPlainEnter } from './sendKey';
+import { DEFAULT_SETTINGS, FailureMode, Settings, loadSettings, watchSettings } from './settings';
+import { BudgetAction, BudgetExceededError } from './usage';
 
-interface CorrectionIssue {
-  type: 'typo' | 'tone' | 'politeness' | 'grammar' | 'style';
-  original: string;
-  corrected: string;
-  reason: string;
-  severity: number;
+interface AnalyzeOptions {
+  requestId?: string;
+  // rewrite は toneTarget のトーンへの書き換え、translate はポリシーの言語への翻訳
+  mode?: CorrectionMode;
+  // 省略時はポリシーのトーン
+  toneTarget?: ToneTarget;
+  // 会話の文脈（設定でオフの場合は undefined）
+  context?: PromptContext;
 }
 
-interface CorrectionResult {
-  score: number;
-  issues: CorrectionIssue[];
-  correctedText: string;
-  needsCorrection: boolean;
-}
+// ダイアログのトーン書き換えボタン
+const TONE_LABELS: Record<Exclude<ToneTarget, 'none'>, string> = {
+  formal: 'フォーマル',
+  casual: 'カジュアル',
+  concise: '簡潔',
+  friendly: 'フレンドリー'
+};
 
-interface ChromeRuntimeMessage {
-  action: string;
-  text?: string;
+// 校正ダイアログでユーザーが最終的に選んだ操作
+interface DialogResolution {
+  action: HistoryAction;
+  sentText: string | null;
+  decisions?: Map<number, 'accepted' | 'rejected'>;
 }
 
-interface ChromeRuntimeResponse {
-  success: boolean;
-  data?: {
-    issues: CorrectionIssue[];
-    correctedText: string;
-  };
-  error?: string;
+// 入力欄ごとのローディング表示
+interface LoadingState {
+  indicator: HTMLElement;
+  overlay: HTMLElement;
+  escapeHandler: ((e: KeyboardEvent) => void) | null;
 }
 
+// 校正中にユーザーが選んだ操作
+type AnalysisOutcome =
+  | { action: 'analyzed'; corrections: CorrectionResult }
+  // budgetAction: 利用額の上限に達してAPIを呼び出さなかった場合の設定された動作
+  // localCheck: 送信を止める設定の場合に、エラーと一緒に表示するローカルのチェック結果
+  | { action: 'failed'; error: string; budgetAction?: BudgetAction; localCheck?: CorrectionResult }
+  | { action: 'skip' }
+  | { action: 'cancel' };
+
 class SlackMessageCorrector {
-  private correctionThreshold: number;
-  private isExecutingOriginalSend: boolean;
+  private settings: Settings;
+  // 元の送信を実行中の入力欄（キーボードイベントの再送で無限ループしないように）
+  private executingOriginalSend = new WeakSet<HTMLElement>();
+  // 送信キーの自動検出中に横取りした Enter（送信時は Enter のまま Slack に渡して結果を観察する）
+  private handBackEnter = new WeakSet<HTMLElement>();
   private diffLibLoaded: boolean;
-  private currentIndicator: HTMLElement | null = null;
-  private currentOverlay: HTMLElement | null = null;
+  // 校正中の入力欄（スレッドや編集欄など、複数の入力欄を同時に扱う）
+  private loadingStates = new Map<HTMLElement, LoadingState>();
+  private sendKeyDetector = new SendKeyDetector();
+  private circuitState: CircuitState | null = null;
+  private inlineLinter: InlineLinter | null = null;
 
   constructor() {
-    this.correctionThreshold = 0.3;
-    this.isExecutingOriginalSend = false;
+    this.settings = { ...DEFAULT_SETTINGS };
     this.diffLibLoaded = true;
     console.log('🔧 SlackMessageCorrector initialized');
     this.init();
@@ -52,74 +82,161 @@ class SlackMessageCorrector {
 
   init(): void {
     console.log('🔧 Starting initialization...');
+    this.setupSettings();
     this.interceptSendButtons();
     this.interceptKeyboardShortcuts();
     this.observeNewElements();
+    this.setupInlineLint();
     console.log('🔧 Initialization complete');
   }
 
-  interceptSendButtons(): void {
-    // 実際のSlack要素に基づくセレクター
-    const selectors = [
-      '[data-qa="texty_send_button"]',
-      '[aria-label="今すぐ送信する"]',
-      '[aria-label="Send"]',
-      '.c-wysiwyg_container__button--send',
-      'button[aria-label*="送信"]',
-      'button[aria-label*="Send"]',
-      '[data-qa="send_message_button"]'
-    ];
-    
-    let allButtons: Element[] = [];
-    selectors.forEach(selector => {
-      const buttons = document.querySelectorAll(selector);
-      console.log(`🔧 Selector "${selector}": ${buttons.length} buttons`);
-      allButtons.push(...Array.from(buttons));
+  setupSettings(): void {
+    loadSettings()
+      .then(settings => {
+        this.settings = settings;
+        console.log('🔧 Settings loaded:', settings);
+      })
+      .catch(error => console.error('🔧 Failed to load settings:', error));
+
+    // オプションページでの変更を開いているタブにも即時反映
+    watchSettings(settings => {
+      this.settings = settings;
+      console.log('🔧 Settings updated:', settings);
+      if (!settings.inlineLintEnabled) {
+        this.inlineLinter?.clearAll();
+      }
     });
+  }
+
+  setupInlineLint(): void {
+    this.inlineLinter = new InlineLinter({
+      isEnabled: () => this.settings.inlineLintEnabled &&
+                       resolvePolicy(this.settings, this.getConversationContext()).enabled,
+      severityThreshold: () => this.settings.severityThreshold,
+      toneTarget: () => resolvePolicy(this.settings, this.getConversationContext()).toneTarget,
+      replaceText: (editor, text) => this.setMessageText(editor, text)
+    });
+  }
+
+  // 現在開いている会話の情報をURLとDOMから取得する
+  getConversationContext(): ConversationContext {
+    const { workspaces, channelId, isDM } = parseSlackUrl(location.href);
+    const domain = this.findWorkspaceDomain(workspaces);
+    if (domain && !workspaces.includes(domain)) workspaces.push(domain);
+
+    const header = document.querySelector('[data-qa="channel_name"]') ||
+                   document.querySelector('.p-view_header__channel_title') ||
+                   document.querySelector('[data-qa="channel_header_title"]');
+    // 例: "general (チャンネル) - Workspace - Slack"
+    const channelName = header?.textContent?.trim() ||
+                        document.title.split(' - ')[0].replace(/\s*\(.*\)$/, '').trim() ||
+                        null;
+
+    const dmIndicator = document.querySelector('[data-qa="channel_header"] [data-qa="presence_indicator"]') !== null;
+
+    return {
+      workspaces,
+      channelId,
+      channelName,
+      isDM: isDM || dmIndicator
+    };
+  }
+
+  // app.slack.com ではURLにサブドメインがないため、Slack が保存している設定からドメインを探す
+  findWorkspaceDomain(workspaces: string[]): string | null {
+    const teamId = workspaces.find(id => /^[TE][A-Z0-9]+$/.test(id));
+    if (!teamId) return null;
+
+    try {
+      return parseWorkspaceDomain(localStorage.getItem('localConfig_v2'), teamId);
+    } catch {
+      // ストレージにアクセスできない場合はチームIDだけで判定する
+      return null;
+    }
+  }
+
+  // 設定でオンの場合のみ、プロンプトに含める会話の文脈を集める
+  getPromptContext(inputElement: HTMLElement): PromptContext | undefined {
+    if (!this.settings.conversationContextEnabled) return undefined;
+
+    const { channelName, isDM } = this.getConversationContext();
+    const context = fitToTokenBudget({
+      channelName,
+      isDM,
+      inThread: getComposerKind(inputElement) === 'thread',
+      messages: extractRecentMessages(inputElement, this.settings.conversationContextMessages)
+    }, this.settings.conversationContextTokenBudget);
+    console.log('🔧 Prompt context:', context);
+    return context;
+  }
+
+  resolveCurrentPolicy(): ResolvedPolicy {
+    const context = this.getConversationContext();
+    const policy = resolvePolicy(this.settings, context);
+    console.log('🔧 Resolved policy:', policy, context);
+    return policy;
+  }
+
+  interceptSendButtons(): void {
+    // チャンネル・スレッドの送信ボタンと、メッセージ編集欄の保存ボタン
+    const controls = findSendControls(document);
+    console.log(`🔧 Total unique send buttons found: ${controls.length}`, controls);
     
-    // 重複を除去
-    const uniqueButtons = [...new Set(allButtons)] as HTMLButtonElement[];
-    console.log(`🔧 Total unique send buttons found: ${uniqueButtons.length}`, uniqueButtons);
-    
-    uniqueButtons.forEach(button => this.attachSendHandler(button));
+    controls.forEach(button => this.attachSendHandler(button));
   }
 
   interceptKeyboardShortcuts(): void {
     console.log('🔧 Setting up keyboard shortcut interception');
+
+    this.sendKeyDetector.load()
+      .catch(error => console.error('🔧 Failed to load detected send key:', error));
     
     // メッセージ入力エリアでのキーイベントをキャプチャ
     document.addEventListener('keydown', (e: KeyboardEvent) => {
-      // Ctrl+Enter または Cmd+Enter (Mac)
-      if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
-        console.log('🔧 Keyboard shortcut detected: Ctrl/Cmd+Enter');
-        
-        // 元の送信実行中の場合はスキップ
-        if (this.isExecutingOriginalSend) {
-          console.log('🔧 Original send in progress, skipping interception');
-          return;
-        }
-        
-        // アクティブな要素がメッセージ入力エリアかチェック
-        const activeElement = document.activeElement as HTMLElement;
-        if (this.isMessageInput(activeElement)) {
-          console.log('🔧 Active element is message input, intercepting');
-          e.preventDefault();
-          e.stopPropagation();
-          e.stopImmediatePropagation();
-          
-          this.handleKeyboardSend(activeElement);
+      if (e.key !== 'Enter') return;
+
+      // イベントの発生元がメッセージ入力エリアかチェック（スレッド・編集欄を含む）
+      const editor = findComposerEditor(e.target as Element) || findComposerEditor(document.activeElement);
+      if (!editor) return;
+
+      // 元の送信実行中の場合はスキップ
+      if (this.executingOriginalSend.has(editor)) {
+        console.log('🔧 Original send in progress, skipping interception');
+        return;
+      }
+
+      // Ctrl/Cmd+Enter は常に、Enter は Enter 送信の場合のみ（IME確定・候補選択・Shift+Enter の改行は除く）
+      const sendKey = this.sendKeyDetector.resolve(this.settings.sendKey);
+      const intent = classifyEnter(e, editor, sendKey);
+      if (!intent) {
+        if (this.settings.sendKey === 'auto') {
+          this.sendKeyDetector.observe(e, editor, input => this.getMessageText(input));
         }
+        return;
       }
-    }, true); // capture phase で早期にキャプチャ
-  }
+      
+      console.log(`🔧 Keyboard send detected (${intent}, send key: ${sendKey}) in ${getComposerKind(editor)} composer, intercepting`);
+      if (this.settings.sendKey === 'auto' && isPlainEnter(e)) {
+        this.handBackEnter.add(editor);
+      } else {
+        this.handBackEnter.delete(editor);
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      e.stopImmediatePropagation();
 
-  isMessageInput(element: HTMLElement | null): boolean {
-    return element !== null && (
-      element.matches('.ql-editor[data-qa="message_input"]') ||
-      element.matches('.ql-editor') ||
-      element.closest('[data-qa="message_input"]') !== null ||
-      element.closest('.p-message_pane_input') !== null
-    );
+      // 同じ入力欄で校正中なら、二重に送信しない
+      if (this.loadingStates.has(editor)) {
+        console.log('🔧 Analysis already in progress for this composer');
+        return;
+      }
+      
+      if (intent === 'translate') {
+        this.handleTranslate(editor);
+      } else {
+        this.handleKeyboardSend(editor);
+      }
+    }, true); // capture phase で早期にキャプチャ
   }
 
   async handleKeyboardSend(inputElement: HTMLElement): Promise<void> {
@@ -134,34 +251,123 @@ class SlackMessageCorrector {
       return;
     }
 
-    // ローディングインジケーターを表示
-    this.showLoadingIndicator(inputElement);
+    const policy = this.resolveCurrentPolicy();
+    if (!policy.enabled) {
+      console.log(`🔧 Correction disabled by policy "${policy.ruleName}", executing original keyboard send`);
+      this.executeOriginalKeyboardSend(inputElement);
+      return;
+    }
 
     try {
-      const corrections = await this.analyzeText(originalText);
-      console.log('🔧 Keyboard corrections:', corrections);
-      
-      this.hideLoadingIndicator();
+      const startedAt = performance.now();
+      const outcome = await this.analyzeWithControls(originalText, inputElement, policy);
+      const latencyMs = Math.round(performance.now() - startedAt);
+      console.log('🔧 Keyboard analysis outcome:', outcome);
       
-      if (corrections.score >= this.correctionThreshold) {
+      if (outcome.action === 'cancel') {
+        console.log('🔧 Analysis cancelled, keep editing');
+        inputElement.focus();
+        return;
+      }
+
+      if (outcome.action === 'skip') {
+        console.log('🔧 Analysis skipped, executing original keyboard send');
+        this.executeOriginalKeyboardSend(inputElement);
+        return;
+      }
+
+      if (outcome.action === 'failed') {
+        this.handleAnalysisFailure(
+          outcome.error,
+          policy.failureMode,
+          () => this.executeOriginalKeyboardSend(inputElement),
+          () => this.handleKeyboardSend(inputElement),
+          outcome.localCheck
+        );
+        return;
+      }
+
+      const corrections = outcome.corrections;
+      if (corrections.score >= policy.correctionThreshold) {
         console.log('🔧 Showing correction dialog for keyboard send');
-        this.showCorrectionDialog(originalText, corrections, null, inputElement);
+        this.showCorrectionDialog(originalText, corrections, null, inputElement, resolution => {
+          this.recordHistory(originalText, corrections, latencyMs, true, resolution);
+        });
       } else {
         console.log('🔧 No corrections needed, executing original keyboard send');
+        this.recordHistory(originalText, corrections, latencyMs, false, { action: 'as-is', sentText: originalText });
         this.executeOriginalKeyboardSend(inputElement);
       }
     } catch (error) {
       console.error('🔧 Error during analysis:', error);
-      this.hideLoadingIndicator();
+      this.hideLoadingIndicator(inputElement);
       this.executeOriginalKeyboardSend(inputElement);
     }
   }
 
+  // 翻訳モード（入力欄のテキストを翻訳し、ダイアログで確認してから送信する）
+  async handleTranslate(inputElement: HTMLElement): Promise<void> {
+    console.log('🔧 handleTranslate called');
+
+    const originalText = this.getMessageText(inputElement);
+    if (!originalText.trim()) {
+      console.log('🔧 Empty text, nothing to translate');
+      return;
+    }
+
+    // 明示的な操作なので、ポリシーで校正が無効でも翻訳する
+    const policy = this.resolveCurrentPolicy();
+
+    try {
+      const startedAt = performance.now();
+      const outcome = await this.analyzeWithControls(originalText, inputElement, policy, { mode: 'translate' });
+      const latencyMs = Math.round(performance.now() - startedAt);
+      console.log('🔧 Translation outcome:', outcome);
+
+      if (outcome.action === 'cancel') {
+        inputElement.focus();
+        return;
+      }
+
+      if (outcome.action === 'skip') {
+        this.executeOriginalKeyboardSend(inputElement);
+        return;
+      }
+
+      if (outcome.action === 'failed') {
+        // 翻訳せずに送ってしまわないよう、失敗時は常にエラーダイアログを出す
+        this.showErrorDialog(
+          outcome.error,
+          () => this.executeOriginalKeyboardSend(inputElement),
+          () => this.handleTranslate(inputElement)
+        );
+        return;
+      }
+
+      const corrections = outcome.corrections;
+      this.showCorrectionDialog(originalText, corrections, null, inputElement, resolution => {
+        this.recordHistory(originalText, corrections, latencyMs, true, resolution);
+      }, 'translate');
+    } catch (error) {
+      console.error('🔧 Error during translation:', error);
+      this.hideLoadingIndicator(inputElement);
+    }
+  }
+
   executeOriginalKeyboardSend(inputElement: HTMLElement): void {
     console.log('🔧 Executing original keyboard send');
+
+    // 自動検出中に横取りした Enter は、Slack が改行として扱う場合もあるので Enter のまま渡して確かめる
+    if (this.handBackEnter.has(inputElement)) {
+      this.handBackEnter.delete(inputElement);
+      console.log('🔧 Handing Enter back to Slack to verify the send key');
+      this.dispatchOriginalEnter(inputElement, false);
+      this.sendKeyDetector.observeResult(inputElement, input => this.getMessageText(input));
+      return;
+    }
     
     // 送信ボタンが有効になるまで待つ
-    this.waitForSendButton().then(sendButton => {
+    this.waitForSendButton(inputElement).then(sendButton => {
       if (sendButton) {
         console.log('🔧 Clicking send button directly');
         
@@ -178,33 +384,41 @@ class SlackMessageCorrector {
       } else {
         console.log('🔧 Send button not available, falling back to keyboard event');
         
-        // フラグを設定して無限ループを防ぐ
-        this.isExecutingOriginalSend = true;
-        
-        const event = new KeyboardEvent('keydown', {
-          key: 'Enter',
-          ctrlKey: true,
-          bubbles: true,
-          cancelable: true
-        });
-        
-        setTimeout(() => {
-          inputElement.dispatchEvent(event);
-          
-          setTimeout(() => {
-            this.isExecutingOriginalSend = false;
-          }, 100);
-        }, 10);
+        // Slack の送信キーの設定に合わせて Enter または Ctrl+Enter を送る
+        const sendKey = this.sendKeyDetector.resolve(this.settings.sendKey);
+        this.dispatchOriginalEnter(inputElement, sendKey === 'modEnter');
       }
     });
   }
 
-  waitForSendButton(maxAttempts = 10, interval = 100): Promise<HTMLButtonElement | null> {
+  dispatchOriginalEnter(inputElement: HTMLElement, ctrlKey: boolean): void {
+    // フラグを設定して無限ループを防ぐ
+    this.executingOriginalSend.add(inputElement);
+
+    const event = new KeyboardEvent('keydown', {
+      key: 'Enter',
+      ctrlKey,
+      bubbles: true,
+      cancelable: true
+    });
+    
+    setTimeout(() => {
+      inputElement.dispatchEvent(event);
+      
+      setTimeout(() => {
+        this.executingOriginalSend.delete(inputElement);
+      }, 100);
+    }, 10);
+  }
+
+  // 入力欄に対応する送信（編集欄では保存）ボタンが有効になるまで待つ
+  waitForSendButton(inputElement: HTMLElement, maxAttempts = 10, interval = 100): Promise<HTMLButtonElement | null> {
     return new Promise((resolve) => {
       let attempts = 0;
       
       const checkButton = () => {
-        const sendButton = document.querySelector('[data-qa="texty_send_button"]') as HTMLButtonElement;
+        // テキストの書き換えでボタンが描き直されることがあるため毎回探す
+        const sendButton = findSendControl(inputElement);
         const isEnabled = sendButton && 
                          !sendButton.disabled && 
                          sendButton.getAttribute('aria-disabled') !== 'true';
@@ -227,24 +441,7 @@ class SlackMessageCorrector {
   }
 
   findAndAttachButtons(container: Document | Element = document): void {
-    const selectors = [
-      '[data-qa="texty_send_button"]',
-      '[aria-label="今すぐ送信する"]',
-      '[aria-label="Send"]',
-      '.c-wysiwyg_container__button--send',
-      'button[aria-label*="送信"]',
-      'button[aria-label*="Send"]',
-      '[data-qa="send_message_button"]'
-    ];
-    
-    let allButtons: Element[] = [];
-    selectors.forEach(selector => {
-      const buttons = container.querySelectorAll(selector);
-      allButtons.push(...Array.from(buttons));
-    });
-    
-    const uniqueButtons = [...new Set(allButtons)] as HTMLButtonElement[];
-    uniqueButtons.forEach(button => this.attachSendHandler(button));
+    findSendControls(container).forEach(button => this.attachSendHandler(button));
   }
 
   observeNewElements(): void {
@@ -258,7 +455,7 @@ class SlackMessageCorrector {
         });
         
         // 属性が変更された場合（ボタンの状態変更を検出）
-        if (mutation.type === 'attributes' && (mutation.target as Element).matches('[data-qa="texty_send_button"]')) {
+        if (mutation.type === 'attributes' && isSendControl(mutation.target as Element)) {
           console.log('🔧 Send button attributes changed, re-attaching handler');
           this.attachSendHandler(mutation.target as HTMLButtonElement);
         }
@@ -300,6 +497,13 @@ class SlackMessageCorrector {
     
     if (!messageInput) {
       console.log('🔧 No message input found, sending original');
+      this.clickOriginalButton(button);
+      return;
+    }
+
+    // 同じ入力欄で校正中なら、二重に送信しない
+    if (this.loadingStates.has(messageInput)) {
+      console.log('🔧 Analysis already in progress for this composer');
       return;
     }
 
@@ -312,53 +516,74 @@ class SlackMessageCorrector {
       return;
     }
 
-    // ローディングインジケーターを表示
-    this.showLoadingIndicator(messageInput);
+    const policy = this.resolveCurrentPolicy();
+    if (!policy.enabled) {
+      console.log(`🔧 Correction disabled by policy "${policy.ruleName}", sending original`);
+      this.sendOriginalMessage(button);
+      return;
+    }
+
     this.showButtonLoading(button);
 
     try {
-      const corrections = await this.analyzeText(originalText);
-      console.log('🔧 Corrections:', corrections);
+      const startedAt = performance.now();
+      const outcome = await this.analyzeWithControls(originalText, messageInput, policy);
+      const latencyMs = Math.round(performance.now() - startedAt);
+      console.log('🔧 Analysis outcome:', outcome);
       
-      this.hideLoadingIndicator();
       this.hideButtonLoading(button);
       
-      if (corrections.score >= this.correctionThreshold) {
+      if (outcome.action === 'cancel') {
+        console.log('🔧 Analysis cancelled, keep editing');
+        messageInput.focus();
+        return;
+      }
+
+      if (outcome.action === 'skip') {
+        console.log('🔧 Analysis skipped, sending original');
+        this.sendOriginalMessage(button);
+        return;
+      }
+
+      if (outcome.action === 'failed') {
+        this.handleAnalysisFailure(
+          outcome.error,
+          policy.failureMode,
+          () => this.sendOriginalMessage(button),
+          () => this.handleSendClick(button),
+          outcome.localCheck
+        );
+        return;
+      }
+
+      const corrections = outcome.corrections;
+      if (corrections.score >= policy.correctionThreshold) {
         console.log('🔧 Showing correction dialog');
-        this.showCorrectionDialog(originalText, corrections, button, messageInput);
+        this.showCorrectionDialog(originalText, corrections, button, messageInput, resolution => {
+          this.recordHistory(originalText, corrections, latencyMs, true, resolution);
+        });
       } else {
         console.log('🔧 No corrections needed, sending original');
+        this.recordHistory(originalText, corrections, latencyMs, false, { action: 'as-is', sentText: originalText });
         this.sendOriginalMessage(button);
       }
     } catch (error) {
       console.error('🔧 Error during analysis:', error);
-      this.hideLoadingIndicator();
+      this.hideLoadingIndicator(messageInput);
       this.hideButtonLoading(button);
       this.sendOriginalMessage(button);
     }
   }
 
   findMessageInput(button: HTMLButtonElement): HTMLElement | null {
-    // 実際のSlack要素に基づく検索
-    const container = button.closest('.p-message_pane_input') || 
-                     button.closest('.c-wysiwyg_container') ||
-                     button.closest('[data-qa="message_input_container"]');
-    
-    if (container) {
-      return container.querySelector('.ql-editor[data-qa="message_input"]') as HTMLElement || 
-             container.querySelector('.ql-editor') as HTMLElement ||
-             container.querySelector('[role="textbox"]') as HTMLElement ||
-             container as HTMLElement;
-    }
-    
-    return document.querySelector('.ql-editor[data-qa="message_input"]') as HTMLElement ||
-           document.querySelector('.ql-editor') as HTMLElement ||
-           document.querySelector('[role="textbox"]') as HTMLElement;
+    // ページ全体ではなく、ボタンと同じ入力欄（スレッド・編集欄を含む）から探す
+    return findEditorForControl(button);
   }
 
   getMessageText(input: HTMLElement): string {
     if (input.classList.contains('ql-editor')) {
-      return input.innerText || input.textContent || '';
+      // メンション・絵文字などは表示テキストとして展開する
+      return toPlainText(serializeComposer(input));
     }
     return (input as HTMLInputElement).value || input.innerText || input.textContent || '';
   }
@@ -369,7 +594,11 @@ class SlackMessageCorrector {
     
     if (input.classList.contains('ql-editor')) {
       // Quill エディター用の処理
-      input.innerText = text;
+      // テキスト部分のみを書き換え、メンション・絵文字・リンク・書式などは保持する
+      const doc = serializeComposer(input);
+      if (toPlainText(doc) !== text) {
+        input.replaceChildren(deserializeComposer(applyPlainText(doc, text)));
+      }
       
       // 複数のイベントを発火してSlackに確実に認識させる
       const events = [
@@ -398,60 +627,299 @@ class SlackMessageCorrector {
     
     // 少し待ってから送信ボタンの状態をチェック
     setTimeout(() => {
-      const sendButton = document.querySelector('[data-qa="texty_send_button"]') as HTMLButtonElement;
+      const sendButton = findSendControl(input);
       console.log('🔧 Send button after text update:', sendButton);
       console.log('🔧 Send button disabled:', sendButton?.disabled);
       console.log('🔧 Send button aria-disabled:', sendButton?.getAttribute('aria-disabled'));
     }, 100);
   }
 
-  async analyzeText(text: string): Promise<CorrectionResult> {
+  // ローディング表示中に「スキップして送信」「キャンセル」を選べるようにして校正する
+  async analyzeWithControls(
+    text: string,
+    inputElement: HTMLElement,
+    policy: ResolvedPolicy,
+    options: AnalyzeOptions = {}
+  ): Promise<AnalysisOutcome> {
+    const outcome = await this.requestAnalysis(text, inputElement, policy, options);
+
+    // 利用額の上限に達した場合は、設定に従ってローカルのチェックだけ行うか、チェックせずに送信する
+    if (outcome.action === 'failed' && outcome.budgetAction && (options.mode ?? 'correct') === 'correct') {
+      console.log(`🔧 Budget exceeded, action: ${outcome.budgetAction}`);
+      return outcome.budgetAction === 'local'
+        ? { action: 'analyzed', corrections: this.analyzeTextFallback(text, policy) }
+        : { action: 'skip' };
+    }
+
+    // 校正モードでAPIが使えない場合は、ローカルのルールでチェックする。
+    // 送信を止める設定では、APIでチェックせずに送れてしまわないよう失敗のまま返し、エラーと一緒に表示する
+    if (outcome.action === 'failed' && (options.mode ?? 'correct') === 'correct') {
+      const local = this.analyzeTextFallback(text, policy);
+      if (local.needsCorrection && policy.failureMode === 'block') {
+        return { ...outcome, localCheck: local };
+      }
+      if (local.needsCorrection) {
+        console.log('🔧 API unavailable, showing local check result:', outcome.error);
+        this.showToast(`校正APIを利用できないため、ローカルのチェック結果を表示しています: ${this.describeError(outcome.error)}`);
+        return { action: 'analyzed', corrections: local };
+      }
+    }
+
+    return outcome;
+  }
+
+  // 校正APIを呼び出す（APIを使えないと分かっている場合は呼び出さずに失敗として返す）
+  async requestAnalysis(
+    text: string,
+    inputElement: HTMLElement,
+    policy: ResolvedPolicy,
+    options: AnalyzeOptions
+  ): Promise<AnalysisOutcome> {
+    // APIが停止中と分かっている間は待たせずに失敗として扱う
+    if (this.isCircuitOpen()) {
+      console.log('🔧 Circuit breaker is open, skipping analysis');
+      return { action: 'failed', error: this.circuitState!.lastError || '校正APIの呼び出しを一時停止しています' };
+    }
+
+    if (!navigator.onLine) {
+      console.log('🔧 Offline, skipping analysis');
+      return { action: 'failed', error: 'オフラインのため校正APIに接続できません' };
+    }
+
+    const requestId = crypto.randomUUID();
+
+    const userAction = new Promise<AnalysisOutcome>(resolve => {
+      this.showLoadingIndicator(inputElement, action => resolve({ action }));
+    });
+    const context = options.context ?? this.getPromptContext(inputElement);
+    const analysis = this.analyzeText(text, policy, { ...options, requestId, context })
+      .then(corrections => ({ action: 'analyzed', corrections } as AnalysisOutcome))
+      .catch(error => ({
+        action: 'failed',
+        error: error.message,
+        budgetAction: error instanceof BudgetExceededError ? error.action : undefined
+      } as AnalysisOutcome));
+
+    const outcome = await Promise.race([analysis, userAction]);
+    this.hideLoadingIndicator(inputElement);
+
+    if (outcome.action !== 'analyzed') {
+      // バックグラウンドのリクエストを中断
+      sendRuntimeMessage({ action: 'cancelRequest', requestId })
+        .catch(error => console.error('🔧 Failed to cancel request:', error));
+    }
+
+    return outcome;
+  }
+
+  async analyzeText(text: string, policy: ResolvedPolicy, options: AnalyzeOptions = {}): Promise<CorrectionResult> {
     try {
       // Chrome runtime messaging with proper typing
-      const response = await chrome.runtime.sendMessage({
+      const response = await sendRuntimeMessage({
         action: 'correctText',
-        text: text
-      } as ChromeRuntimeMessage) as ChromeRuntimeResponse;
+        text: text,
+        requestId: options.requestId,
+        toneTarget: options.toneTarget ?? policy.toneTarget,
+        mode: options.mode ?? 'correct',
+        targetLanguage: policy.targetLanguage,
+        context: options.context
+      });
+
+      if (response.circuit) {
+        this.circuitState = response.circuit;
+      }
 
       if (response.success && response.data) {
-        const data = response.data;
-        
-        // 重要度の低い修正を除外（0.3以下は表示しない）
-        const significantIssues = data.issues.filter(issue => issue.severity > 0.3);
-        
-        // 除外によって修正がなくなった場合
-        const hasSignificantIssues = significantIssues.length > 0;
-        const adjustedScore = hasSignificantIssues ? Math.max(...significantIssues.map(i => i.severity)) : 0;
-        
-        return {
-          score: adjustedScore,
-          issues: significantIssues,
-          correctedText: data.correctedText,
-          needsCorrection: hasSignificantIssues && adjustedScore >= this.correctionThreshold
-        };
+        return this.filterSignificantIssues(response.data, policy);
+      } else if (response.budget?.exceeded) {
+        throw new BudgetExceededError(response.budget.exceeded, response.budget.action);
       } else {
-        console.error('Claude API Error:', response.error);
-        // フォールバック：ローカルパターンマッチ
-        return this.analyzeTextFallback(text);
+        console.error('Correction API Error:', response.error);
+        throw new Error(response.error || '校正に失敗しました');
       }
     } catch (error) {
       console.error('Analysis error:', error);
-      // フォールバック：ローカルパターンマッチ
-      return this.analyzeTextFallback(text);
+      // 失敗時の扱いは呼び出し元で failureMode に従って決める
+      throw error instanceof Error ? error : new Error(String(error));
     }
   }
 
-  analyzeTextFallback(text: string): CorrectionResult {
+  filterSignificantIssues(data: CorrectionResult, policy: ResolvedPolicy): CorrectionResult {
+    // 重要度の低い修正を除外（しきい値以下は表示しない）
+    const significantIssues = data.issues.filter(issue => issue.severity > this.settings.severityThreshold);
+    
+    // 除外によって修正がなくなった場合
+    const hasSignificantIssues = significantIssues.length > 0;
+    const adjustedScore = hasSignificantIssues ? Math.max(...significantIssues.map(i => i.severity)) : 0;
+    
     return {
-      score: 0.0,
-      issues: [],
-      correctedText: text,
-      needsCorrection: false
+      score: adjustedScore,
+      issues: significantIssues,
+      correctedText: data.correctedText,
+      needsCorrection: hasSignificantIssues && adjustedScore >= policy.correctionThreshold
+    };
+  }
+
+  // failureMode に従って、送信・警告して送信・送信を止めてエラー表示のいずれかを行う
+  handleAnalysisFailure(
+    error: string,
+    failureMode: FailureMode,
+    sendAnyway: () => void,
+    retry: () => void,
+    localCheck?: CorrectionResult
+  ): void {
+    console.log(`🔧 Analysis failed (failureMode: ${failureMode}):`, error);
+
+    switch (failureMode) {
+      case 'send':
+        sendAnyway();
+        break;
+      case 'warn':
+        this.showToast(`校正できなかったため、そのまま送信しました: ${this.describeError(error)} ${this.describeCircuitState()}`.trim());
+        sendAnyway();
+        break;
+      case 'block':
+        this.showErrorDialog(error, sendAnyway, retry, localCheck);
+        break;
+    }
+  }
+
+  isCircuitOpen(): boolean {
+    const state = this.circuitState;
+    return state !== null &&
+           state.status === 'open' &&
+           state.retryAt !== null &&
+           Date.now() < state.retryAt;
+  }
+
+  describeCircuitState(): string {
+    if (!this.isCircuitOpen()) return '';
+    const seconds = Math.ceil((this.circuitState!.retryAt! - Date.now()) / 1000);
+    return `連続${this.circuitState!.failures}回失敗したため、校正を一時停止しています（${seconds}秒後に再開）。`;
+  }
+
+  // ChromeRuntimeResponse.error の内容から原因の説明を返す
+  describeError(error: string): string {
+    if (error.includes('APIキーが設定されていません')) {
+      return 'APIキーが未設定です。オプションページで設定してください。';
+    }
+    if (/API Error: 401\b/.test(error) || /API Error: 403\b/.test(error)) {
+      return 'APIキーが無効です（認証エラー）。オプションページでキーを確認してください。';
+    }
+    if (/API Error: 429\b/.test(error)) {
+      return 'レート制限に達しました。しばらく待ってから再試行してください。';
+    }
+    if (/API Error: (5\d\d|529)\b/.test(error)) {
+      return 'APIサーバーが混雑しているか、障害が発生しています。';
+    }
+    if (error.includes('タイムアウト')) {
+      return '校正がタイムアウトしました。';
+    }
+    if (/Failed to fetch|NetworkError|network/i.test(error)) {
+      return 'ネットワークに接続できません。接続状況やベースURLを確認してください。';
+    }
+    return error;
+  }
+
+  showToast(message: string): void {
+    const toast = document.createElement('div');
+    toast.className = 'slack-corrector-toast';
+    toast.textContent = message;
+    document.body.appendChild(toast);
+
+    setTimeout(() => toast.remove(), 5000);
+  }
+
+  showErrorDialog(error: string, sendAnyway: () => void, retry: () => void, localCheck?: CorrectionResult): void {
+    const localIssues = localCheck && localCheck.issues.length > 0
+      ? `<div class="error-local-check">
+          <p>ローカルのチェックで見つかった問題:</p>
+          <ul>${localCheck.issues.map(issue =>
+            `<li><span class="original">${this.escapeHtml(issue.original)}</span> → <span class="corrected">${this.escapeHtml(issue.corrected)}</span></li>`
+          ).join('')}</ul>
+        </div>`
+      : '';
+
+    const dialog = document.createElement('div');
+    dialog.className = 'slack-corrector-dialog';
+    dialog.innerHTML = `
+      <div class="dialog-content error-dialog">
+        <div class="dialog-header">
+          <h3>校正できませんでした</h3>
+          <button class="close-dialog">×</button>
+        </div>
+        
+        <div class="dialog-body">
+          <p class="error-summary">${this.escapeHtml(this.describeError(error))}</p>
+          ${this.isCircuitOpen() ? `<p class="error-circuit">${this.escapeHtml(this.describeCircuitState())}</p>` : ''}
+          <pre class="error-detail">${this.escapeHtml(error)}</pre>
+          ${localIssues}
+        </div>
+        
+        <div class="dialog-footer">
+          <button class="send-original">このまま送信</button>
+          <button class="re-correct">再試行</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(dialog);
+
+    (dialog.querySelector('.send-original') as HTMLButtonElement).onclick = () => {
+      dialog.remove();
+      sendAnyway();
+    };
+    (dialog.querySelector('.re-correct') as HTMLButtonElement).onclick = () => {
+      dialog.remove();
+      retry();
+    };
+    (dialog.querySelector('.close-dialog') as HTMLButtonElement).onclick = () => {
+      dialog.remove();
+    };
+  }
+
+  // 校正結果とユーザーの操作を履歴に保存する（保存に失敗しても送信は妨げない）
+  recordHistory(originalText: string, corrections: CorrectionResult, latencyMs: number, dialogShown: boolean, resolution: DialogResolution): void {
+    const context = this.getConversationContext();
+    const entry: HistoryEntry = {
+      createdAt: Date.now(),
+      originalText,
+      correctedText: corrections.correctedText,
+      sentText: resolution.sentText,
+      issues: corrections.issues.map((issue, index) => ({
+        ...issue,
+        decision: resolution.decisions?.get(index)
+      })),
+      score: corrections.score,
+      action: resolution.action,
+      dialogShown,
+      latencyMs,
+      workspace: context.workspaces[0] ?? null,
+      channelId: context.channelId,
+      channelName: context.channelName,
+      isDM: context.isDM
     };
+
+    sendRuntimeMessage({ action: 'recordHistory', entry })
+      .catch(error => console.error('🔧 Failed to record history:', error));
   }
 
-  showCorrectionDialog(originalText: string, corrections: CorrectionResult, button: HTMLButtonElement | null, messageInput: HTMLElement): void {
-    const dialog = this.createCorrectionDialog(originalText, corrections);
+  // オフライン時・API障害時のローカルチェック
+  analyzeTextFallback(text: string, policy: ResolvedPolicy): CorrectionResult {
+    return this.filterSignificantIssues(checkLocally(text, this.settings.severityThreshold), policy);
+  }
+
+  showCorrectionDialog(
+    originalText: string,
+    corrections: CorrectionResult,
+    button: HTMLButtonElement | null,
+    messageInput: HTMLElement,
+    onResolve?: (resolution: DialogResolution) => void,
+    mode: 'correct' | 'translate' = 'correct'
+  ): void {
+    const policy = this.resolveCurrentPolicy();
+    // 再校正・書き換え・翻訳でも、送信しようとした時点の会話の文脈を使う
+    const context = this.getPromptContext(messageInput);
+    const dialog = this.createCorrectionDialog(originalText, corrections, policy, mode);
     document.body.appendChild(dialog);
 
     const userTextArea = dialog.querySelector('.user-edit-area') as HTMLTextAreaElement;
@@ -461,22 +929,100 @@ class SlackMessageCorrector {
     const closeBtn = dialog.querySelector('.close-dialog') as HTMLButtonElement;
     const diffDisplay = dialog.querySelector('.diff-display') as HTMLElement;
 
-    // 初期テキストを元のテキストに設定
-    userTextArea.value = originalText;
-    this.updateDiffDisplay(userTextArea, corrections.correctedText, diffDisplay, sendBtn);
+    // 校正対象のテキストと、指摘ごとの採用/却下の状態
+    let baseText = originalText;
+    let currentCorrections = corrections;
+    let targetText = corrections.correctedText;
+    const decisions = new Map<number, 'accepted' | 'rejected'>();
+    // 履歴には最初の校正結果に対する採用/却下を残す
+    let initialDecisions: Map<number, 'accepted' | 'rejected'> | null = null;
+    const resolve = (action: HistoryAction, sentText: string | null) => {
+      onResolve?.({ action, sentText, decisions: initialDecisions ?? new Map(decisions) });
+    };
+
+    // 初期テキストを元のテキストに設定（翻訳は訳文を手直しして送る）
+    userTextArea.value = mode === 'translate' ? corrections.correctedText : originalText;
+    this.updateDiffDisplay(userTextArea, targetText, diffDisplay, sendBtn);
 
     // リアルタイム差分表示
     userTextArea.addEventListener('input', () => {
-      this.updateDiffDisplay(userTextArea, corrections.correctedText, diffDisplay, sendBtn);
+      this.updateDiffDisplay(userTextArea, targetText, diffDisplay, sendBtn);
+    });
+
+    // 採用/却下を選んだ後は、採用した指摘だけを反映した文を目標文にする
+    const refreshTarget = () => {
+      const acceptedIssues = currentCorrections.issues.filter((_, index) => decisions.get(index) === 'accepted');
+      targetText = decisions.size === 0
+        ? currentCorrections.correctedText
+        : this.applyIssues(baseText, acceptedIssues);
+
+      const targetTextElement = dialog.querySelector('.text-content.target');
+      if (targetTextElement) {
+        targetTextElement.textContent = targetText;
+      }
+      this.updateDiffDisplay(userTextArea, targetText, diffDisplay, sendBtn);
+    };
+
+    const decideIssue = (index: number, decision: 'accepted' | 'rejected') => {
+      const issue = currentCorrections.issues[index];
+      const item = dialog.querySelector(`.issues-list li[data-issue-index="${index}"]`);
+      if (!issue || !item || decisions.has(index)) return;
+
+      const status = item.querySelector('.issue-status') as HTMLElement;
+
+      if (decision === 'accepted') {
+        const acceptedIssues = currentCorrections.issues.filter((_, i) => decisions.get(i) === 'accepted');
+        // 編集エリアが採用済みの状態のままなら、オフセットを使って正確な位置に適用する
+        const updated = userTextArea.value === this.applyIssues(baseText, acceptedIssues)
+          ? this.applyIssues(baseText, [...acceptedIssues, issue])
+          : this.replaceFirst(userTextArea.value, issue.original, issue.corrected);
+        if (updated === null) {
+          status.textContent = '編集エリアに該当箇所が見つかりません';
+          return;
+        }
+        userTextArea.value = updated;
+      }
+
+      decisions.set(index, decision);
+      item.classList.add(`issue-${decision}`);
+      item.querySelectorAll('.issue-actions button').forEach(btn => (btn as HTMLButtonElement).disabled = true);
+      status.textContent = decision === 'accepted' ? '✓ 採用' : '却下';
+    };
+
+    // 問題リストは再校正で書き換わるため、イベントは委譲で受ける
+    dialog.querySelector('.issues-section')?.addEventListener('click', (e: Event) => {
+      const target = e.target as HTMLElement;
+
+      const item = target.closest('.issues-list li') as HTMLElement | null;
+
+      if (target.matches('.issue-accept, .issue-reject')) {
+        const index = Number(target.dataset.issueIndex);
+        decideIssue(index, target.matches('.issue-accept') ? 'accepted' : 'rejected');
+        refreshTarget();
+      } else if (target.matches('.accept-all-issues')) {
+        currentCorrections.issues.forEach((_, index) => decideIssue(index, 'accepted'));
+        refreshTarget();
+      } else if (item) {
+        // リストの項目をクリックすると原文中の該当箇所へスクロール
+        this.focusIssue(dialog, item.dataset.issueIndex || '', 'highlight');
+      }
     });
 
-    // 送信ボタン（想定文と一致した場合のみ有効）
+    dialog.querySelector('.original-text')?.addEventListener('click', (e: Event) => {
+      const highlight = (e.target as HTMLElement).closest('.issue-highlight') as HTMLElement | null;
+      if (highlight) {
+        this.focusIssue(dialog, highlight.dataset.issueIndex || '', 'item');
+      }
+    });
+
+    // 送信ボタン（目標文と一致した場合のみ有効）
     sendBtn.onclick = () => {
       console.log('🔧 Sending user corrected text');
       // 末尾スペースを除去した正規化テキストを送信
       const normalizedText = userTextArea.value.trimEnd();
       this.setMessageText(messageInput, normalizedText);
       dialog.remove();
+      resolve('corrected', normalizedText);
       
       setTimeout(() => {
         if (button) {
@@ -493,6 +1039,7 @@ class SlackMessageCorrector {
       const currentText = userTextArea.value;
       this.setMessageText(messageInput, currentText);
       dialog.remove();
+      resolve('as-is', currentText);
       
       setTimeout(() => {
         if (button) {
@@ -503,6 +1050,84 @@ class SlackMessageCorrector {
       }, 200);
     };
 
+    // 再校正・書き換えの結果を新しい目標文にする
+    const replaceCorrections = (text: string, newCorrections: CorrectionResult) => {
+      baseText = text;
+      currentCorrections = newCorrections;
+      targetText = newCorrections.correctedText;
+      initialDecisions ??= new Map(decisions);
+      decisions.clear();
+      this.updateCorrectionDialog(dialog, text, newCorrections, diffDisplay, sendBtn);
+    };
+
+    // トーンの書き換え（編集エリアのテキストを指定したトーンに書き換える）
+    dialog.querySelector('.tone-rewrite')?.addEventListener('click', async (e: Event) => {
+      const toneButton = (e.target as HTMLElement).closest('.tone-option') as HTMLButtonElement | null;
+      if (!toneButton) return;
+
+      const toneTarget = toneButton.dataset.tone as ToneTarget;
+      const currentText = userTextArea.value.trim();
+      console.log('🔧 Rewriting text with tone:', toneTarget);
+
+      if (!currentText) {
+        alert('テキストを入力してください');
+        return;
+      }
+
+      const toneButtons = Array.from(dialog.querySelectorAll('.tone-option')) as HTMLButtonElement[];
+      const label = toneButton.textContent;
+      toneButtons.forEach(btn => btn.disabled = true);
+      toneButton.textContent = '書き換え中...';
+
+      try {
+        const rewritten = await this.analyzeText(currentText, policy, { mode: 'rewrite', toneTarget, context });
+        console.log('🔧 Rewrite results:', rewritten);
+
+        replaceCorrections(currentText, rewritten);
+        toneButtons.forEach(btn => btn.classList.toggle('selected', btn === toneButton));
+      } catch (error) {
+        console.error('🔧 Rewrite error:', error);
+        alert(`書き換え中にエラーが発生しました: ${this.describeError((error as Error).message)}`);
+      } finally {
+        toneButtons.forEach(btn => btn.disabled = false);
+        toneButton.textContent = label;
+      }
+    });
+
+    // 翻訳ボタン（編集エリアのテキストを翻訳し、原文と訳文を並べて表示する）
+    const translateBtn = dialog.querySelector('.translate-option') as HTMLButtonElement | null;
+    if (translateBtn) {
+      translateBtn.onclick = async () => {
+        const currentText = userTextArea.value.trim();
+        console.log('🔧 Translating text to', policy.targetLanguage);
+
+        if (!currentText) {
+          alert('テキストを入力してください');
+          return;
+        }
+
+        const label = translateBtn.textContent;
+        translateBtn.disabled = true;
+        translateBtn.textContent = '翻訳中...';
+
+        try {
+          const translation = await this.analyzeText(currentText, policy, { mode: 'translate', context });
+          console.log('🔧 Translation results:', translation);
+
+          replaceCorrections(currentText, translation);
+          dialog.querySelector('.dialog-content')?.classList.add('translation-mode');
+          userTextArea.value = translation.correctedText;
+          this.updateDiffDisplay(userTextArea, targetText, diffDisplay, sendBtn);
+        } catch (error) {
+          console.error('🔧 Translation error:', error);
+          alert(`翻訳中にエラーが発生しました: ${this.describeError((error as Error).message)}`);
+        } finally {
+          translateBtn.disabled = false;
+          translateBtn.textContent = label;
+        }
+      };
+    }
+
     // 再校正ボタン
     reCorrectBtn.onclick = async (e: Event) => {
       console.log('🔧 Re-correcting text');
@@ -518,15 +1143,15 @@ class SlackMessageCorrector {
       reCorrectBtn.textContent = '校正中...';
       
       try {
-        const newCorrections = await this.analyzeText(currentText);
+        const newCorrections = await this.analyzeText(currentText, policy, { context });
         console.log('🔧 Re-correction results:', newCorrections);
         
         // 新しい校正結果でダイアログを更新
-        this.updateCorrectionDialog(dialog, currentText, newCorrections, diffDisplay, sendBtn);
+        replaceCorrections(currentText, newCorrections);
         
       } catch (error) {
         console.error('🔧 Re-correction error:', error);
-        alert('再校正中にエラーが発生しました');
+        alert(`再校正中にエラーが発生しました: ${this.describeError((error as Error).message)}`);
       } finally {
         reCorrectBtn.disabled = false;
         reCorrectBtn.textContent = '再校正';
@@ -535,50 +1160,35 @@ class SlackMessageCorrector {
 
     closeBtn.onclick = () => {
       dialog.remove();
+      resolve('closed', null);
     };
 
     // フォーカスをテキストエリアに
     setTimeout(() => userTextArea.focus(), 100);
   }
 
-  createCorrectionDialog(originalText: string, corrections: CorrectionResult): HTMLElement {
+  createCorrectionDialog(
+    originalText: string,
+    corrections: CorrectionResult,
+    policy: ResolvedPolicy,
+    mode: 'correct' | 'translate' = 'correct'
+  ): HTMLElement {
+    const defaultTone = policy.toneTarget;
     const dialog = document.createElement('div');
     dialog.className = 'slack-corrector-dialog';
     
-    const getIssueTypeName = (type: string): string => {
-      const typeNames: Record<string, string> = {
-        typo: '誤字',
-        tone: 'トーン',
-        politeness: '敬語',
-        grammar: '文法',
-        style: 'スタイル'
-      };
-      return typeNames[type] || '修正';
-    };
+    const issuesSection = `<div class="issues-section">${this.renderIssuesSection(corrections)}</div>`;
 
-    const issuesList = corrections.issues.map(issue => 
-      `<li class="issue-${issue.type}">
-        <strong>${getIssueTypeName(issue.type)}</strong>: "${issue.original}" → "${issue.corrected}"
-        ${issue.reason ? `<br><small class="issue-reason">理由: ${issue.reason}</small>` : ''}
-        <br><small class="issue-severity">重要度: ${Math.round(issue.severity * 100)}%</small>
-      </li>`
+    // ポリシーで指定されたトーンは既定として示す
+    const toneButtons = (Object.keys(TONE_LABELS) as Array<keyof typeof TONE_LABELS>).map(tone =>
+      `<button class="tone-option ${tone === defaultTone ? 'default' : ''}" data-tone="${tone}"
+        ${tone === defaultTone ? 'title="このチャンネルの既定のトーン"' : ''}>${TONE_LABELS[tone]}</button>`
     ).join('');
 
-    const issuesSection = corrections.issues.length > 0 ? 
-      `<div class="issues-section">
-        <h4>検出された問題:</h4>
-        <p class="issues-filter-note">※重要度30%未満の軽微な修正は表示していません</p>
-        <ul class="issues-list">${issuesList}</ul>
-      </div>` :
-      `<div class="issues-section">
-        <h4>検出された問題:</h4>
-        <p class="no-significant-issues">重要度の高い問題は検出されませんでした</p>
-      </div>`;
-
     dialog.innerHTML = `
-      <div class="dialog-content">
+      <div class="dialog-content ${mode === 'translate' ? 'translation-mode' : ''}">
         <div class="dialog-header">
-          <h3>メッセージ校正</h3>
+          <h3>${mode === 'translate' ? `メッセージ翻訳（${this.escapeHtml(policy.targetLanguage)}）` : 'メッセージ校正'}</h3>
           <button class="close-dialog">×</button>
         </div>
         
@@ -587,12 +1197,23 @@ class SlackMessageCorrector {
             校正スコア: ${(corrections.score * 100).toFixed(0)}%
           </div>
           
+          <div class="tone-rewrite">
+            <span class="tone-rewrite-label">トーンを書き換え:</span>
+            ${toneButtons}
+            <button class="translate-option" title="Ctrl/Cmd+Shift+Enter でも翻訳できます">🌐 ${this.escapeHtml(policy.targetLanguage)}に翻訳</button>
+          </div>
+          
           ${issuesSection}
           
           <div class="edit-section">
+            <div class="original-text">
+              <h4>原文:</h4>
+              <div class="text-content original">${this.renderHighlightedText(originalText, corrections.issues)}</div>
+            </div>
+            
             <div class="target-text">
               <h4>目標文:</h4>
-              <div class="text-content target">${corrections.correctedText}</div>
+              <div class="text-content target">${this.escapeHtml(corrections.correctedText)}</div>
             </div>
             
             <div class="user-edit">
@@ -619,6 +1240,93 @@ class SlackMessageCorrector {
     return dialog;
   }
 
+  renderIssuesSection(corrections: CorrectionResult): string {
+    const issuesList = corrections.issues.map((issue, index) => 
+      `<li class="issue-${issue.type}" data-issue-index="${index}">
+        <strong>${ISSUE_TYPE_LABELS[issue.type] || '修正'}</strong>: "${this.escapeHtml(issue.original)}" → "${this.escapeHtml(issue.corrected)}"
+        ${issue.reason ? `<br><small class="issue-reason">理由: ${this.escapeHtml(issue.reason)}</small>` : ''}
+        <br><small class="issue-severity">重要度: ${Math.round(issue.severity * 100)}%</small>
+        ${issue.repeatCount ? `<small class="issue-repeat" title="過去の校正でも同じ指摘を受けています">🔁 過去にも${issue.repeatCount}回</small>` : ''}
+        <div class="issue-actions">
+          <button class="issue-accept" data-issue-index="${index}">採用</button>
+          <button class="issue-reject" data-issue-index="${index}">却下</button>
+          <span class="issue-status"></span>
+        </div>
+      </li>`
+    ).join('');
+
+    return corrections.issues.length > 0 ? 
+      `<h4>検出された問題:</h4>
+      <p class="issues-filter-note">※重要度${Math.round(this.settings.severityThreshold * 100)}%未満の軽微な修正は表示していません</p>
+      <ul class="issues-list">${issuesList}</ul>
+      <button class="accept-all-issues">すべて採用</button>` :
+      `<h4>検出された問題:</h4>
+      <p class="no-significant-issues">重要度の高い問題は検出されませんでした</p>`;
+  }
+
+  // 最初に一致した箇所のみを置き換える（String.replace の $ パターンを避ける）
+  replaceFirst(text: string, search: string, replacement: string): string | null {
+    const index = text.indexOf(search);
+    if (!search || index === -1) return null;
+    return text.slice(0, index) + replacement + text.slice(index + search.length);
+  }
+
+  hasOffsets(text: string, issue: CorrectionIssue): issue is CorrectionIssue & { start: number; end: number } {
+    return typeof issue.start === 'number' &&
+           typeof issue.end === 'number' &&
+           text.slice(issue.start, issue.end) === issue.original;
+  }
+
+  applyIssues(text: string, issues: CorrectionIssue[]): string {
+    // オフセットのある指摘は後ろから適用して位置のずれを防ぐ（重なる指摘は適用しない）
+    const anchored = issues
+      .filter(issue => this.hasOffsets(text, issue))
+      .sort((a, b) => b.start! - a.start!);
+
+    let result = text;
+    let boundary = text.length;
+    anchored.forEach(issue => {
+      if (issue.end! > boundary) return;
+      result = result.slice(0, issue.start) + issue.corrected + result.slice(issue.end);
+      boundary = issue.start!;
+    });
+
+    return issues
+      .filter(issue => !this.hasOffsets(text, issue))
+      .reduce((current, issue) => this.replaceFirst(current, issue.original, issue.corrected) ?? current, result);
+  }
+
+  // 原文中の指摘箇所に下線を引いたHTMLを返す
+  renderHighlightedText(text: string, issues: CorrectionIssue[]): string {
+    const anchored = issues
+      .map((issue, index) => ({ issue, index }))
+      .filter(({ issue }) => this.hasOffsets(text, issue))
+      .sort((a, b) => a.issue.start! - b.issue.start!);
+
+    let html = '';
+    let cursor = 0;
+    anchored.forEach(({ issue, index }) => {
+      if (issue.start! < cursor) return;
+      html += this.escapeHtml(text.slice(cursor, issue.start));
+      html += `<mark class="issue-highlight issue-${issue.type}" data-issue-index="${index}" title="${this.escapeHtml(issue.reason || '')}">${this.escapeHtml(issue.original)}</mark>`;
+      cursor = issue.end!;
+    });
+
+    return html + this.escapeHtml(text.slice(cursor));
+  }
+
+  focusIssue(dialog: HTMLElement, index: string, target: 'highlight' | 'item'): void {
+    const selector = target === 'highlight'
+      ? `.issue-highlight[data-issue-index="${index}"]`
+      : `.issues-list li[data-issue-index="${index}"]`;
+    const element = dialog.querySelector(selector);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.classList.add('issue-focused');
+    setTimeout(() => element.classList.remove('issue-focused'), 1500);
+  }
+
   updateDiffDisplay(userTextArea: HTMLTextAreaElement, expectedText: string, diffDisplay: HTMLElement, sendBtn: HTMLButtonElement): void {
     const userText = userTextArea.value;
     
@@ -733,33 +1441,13 @@ class SlackMessageCorrector {
     // 問題リストを更新
     const issuesSection = dialog.querySelector('.issues-section');
     if (issuesSection) {
-      const getIssueTypeName = (type: string): string => {
-        const typeNames: Record<string, string> = {
-          typo: '誤字',
-          tone: 'トーン',
-          politeness: '敬語',
-          grammar: '文法',
-          style: 'スタイル'
-        };
-        return typeNames[type] || '修正';
-      };
-
-      const issuesList = newCorrections.issues.map(issue => 
-        `<li class="issue-${issue.type}">
-          <strong>${getIssueTypeName(issue.type)}</strong>: "${issue.original}" → "${issue.corrected}"
-          ${issue.reason ? `<br><small class="issue-reason">理由: ${issue.reason}</small>` : ''}
-          <br><small class="issue-severity">重要度: ${Math.round(issue.severity * 100)}%</small>
-        </li>`
-      ).join('');
-
-      const newIssuesContent = newCorrections.issues.length > 0 ? 
-        `<h4>検出された問題:</h4>
-        <p class="issues-filter-note">※重要度30%未満の軽微な修正は表示していません</p>
-        <ul class="issues-list">${issuesList}</ul>` :
-        `<h4>検出された問題:</h4>
-        <p class="no-significant-issues">重要度の高い問題は検出されませんでした</p>`;
-      
-      issuesSection.innerHTML = newIssuesContent;
+      issuesSection.innerHTML = this.renderIssuesSection(newCorrections);
+    }
+    
+    // 原文のハイライトを更新
+    const originalTextElement = dialog.querySelector('.text-content.original');
+    if (originalTextElement) {
+      originalTextElement.innerHTML = this.renderHighlightedText(newOriginalText, newCorrections.issues);
     }
     
     // 目標文を更新
@@ -775,9 +1463,9 @@ class SlackMessageCorrector {
     this.updateDiffDisplay(userTextArea, newCorrections.correctedText, diffDisplay, sendBtn);
   }
 
-  showLoadingIndicator(inputElement: HTMLElement): void {
-    // 既存のインジケーターを削除
-    this.hideLoadingIndicator();
+  showLoadingIndicator(inputElement: HTMLElement, onAction?: (action: 'skip' | 'cancel') => void): void {
+    // この入力欄の既存のインジケーターを削除
+    this.hideLoadingIndicator(inputElement);
     
     const container = inputElement.closest('.p-message_pane_input') as HTMLElement || 
                      inputElement.closest('.c-wysiwyg_container') as HTMLElement ||
@@ -797,6 +1485,26 @@ class SlackMessageCorrector {
       <div class="spinner"></div>
       <span>AI校正中...</span>
     `;
+
+    let escapeHandler: ((e: KeyboardEvent) => void) | null = null;
+    if (onAction) {
+      indicator.insertAdjacentHTML('beforeend', `
+        <button class="indicator-skip" title="Esc">スキップして送信</button>
+        <button class="indicator-cancel">キャンセルして編集を続ける</button>
+      `);
+      (indicator.querySelector('.indicator-skip') as HTMLButtonElement).onclick = () => onAction('skip');
+      (indicator.querySelector('.indicator-cancel') as HTMLButtonElement).onclick = () => onAction('cancel');
+
+      // Escでスキップして送信（複数の入力欄で校正中の場合は、フォーカスのある入力欄のみ）
+      escapeHandler = (e: KeyboardEvent) => {
+        if (e.key === 'Escape' && this.isEscapeTarget(inputElement)) {
+          e.preventDefault();
+          e.stopPropagation();
+          onAction('skip');
+        }
+      };
+      document.addEventListener('keydown', escapeHandler, true);
+    }
     
     // オーバーレイを作成
     const overlay = document.createElement('div');
@@ -807,19 +1515,29 @@ class SlackMessageCorrector {
     container.appendChild(overlay);
     
     // 参照を保存
-    this.currentIndicator = indicator;
-    this.currentOverlay = overlay;
+    this.loadingStates.set(inputElement, { indicator, overlay, escapeHandler });
   }
-  
-  hideLoadingIndicator(): void {
-    if (this.currentIndicator) {
-      this.currentIndicator.remove();
-      this.currentIndicator = null;
+
+  // フォーカスのある入力欄、どれにもフォーカスがなければ最後に校正を始めた入力欄
+  isEscapeTarget(inputElement: HTMLElement): boolean {
+    const editors = Array.from(this.loadingStates.keys());
+    const focused = findComposerEditor(document.activeElement);
+    if (focused && this.loadingStates.has(focused)) {
+      return focused === inputElement;
     }
-    if (this.currentOverlay) {
-      this.currentOverlay.remove();
-      this.currentOverlay = null;
+    return editors[editors.length - 1] === inputElement;
+  }
+  
+  hideLoadingIndicator(inputElement: HTMLElement): void {
+    const state = this.loadingStates.get(inputElement);
+    if (!state) return;
+
+    state.indicator.remove();
+    state.overlay.remove();
+    if (state.escapeHandler) {
+      document.removeEventListener('keydown', state.escapeHandler, true);
     }
+    this.loadingStates.delete(inputElement);
   }
   
   showButtonLoading(button: HTMLButtonElement): void {
@@ -842,26 +1560,36 @@ class SlackMessageCorrector {
   sendOriginalMessage(button: HTMLButtonElement): void {
     console.log('🔧 Sending original message via button');
     
-    // 送信ボタンが有効になるまで待つ
-    this.waitForSendButton().then(sendButton => {
+    const messageInput = this.findMessageInput(button);
+    if (!messageInput) {
+      this.clickOriginalButton(button);
+      return;
+    }
+
+    // 送信ボタンが有効になるまで待つ（押されたボタンと同じ入力欄のもの）
+    this.waitForSendButton(messageInput).then(sendButton => {
       if (sendButton) {
-        // ハンドラーを一時的に無効化
-        (sendButton as any).dataset.correctorSending = 'true';
-        
-        // 少し待ってからクリック（Slackの処理を待つ）
-        setTimeout(() => {
-          sendButton.click();
-          
-          // 送信後にハンドラーを再有効化
-          setTimeout(() => {
-            (sendButton as any).dataset.correctorSending = 'false';
-          }, 100);
-        }, 10);
+        this.clickOriginalButton(sendButton);
       } else {
         console.log('🔧 Send button not available for original message');
       }
     });
   }
+
+  clickOriginalButton(button: HTMLButtonElement): void {
+    // ハンドラーを一時的に無効化
+    (button as any).dataset.correctorSending = 'true';
+    
+    // 少し待ってからクリック（Slackの処理を待つ）
+    setTimeout(() => {
+      button.click();
+      
+      // 送信後にハンドラーを再有効化
+      setTimeout(() => {
+        (button as any).dataset.correctorSending = 'false';
+      }, 100);
+    }, 10);
+  }
 }
 
 if (document.readyState === 'loading') {
@@ -0,0 +1,293 @@
+// チームの用語集（推奨表記・禁止語・変更しない語）
+//
+// プロンプトで指示するだけではモデルが製品名や略語を「修正」してしまうことがあるため、
+// レスポンスの各 issue にも用語集を適用し、違反するものは書き換えるか除外する。
+
+import { CorrectionIssue, CorrectionResult } from './providers';
+
+// 推奨表記（variants に書かれた表記は term に直す）
+export interface PreferredTerm {
+  term: string;
+  variants: string[];
+}
+
+// 禁止語（replacement があれば置き換え、なければその修正を除外）
+export interface ForbiddenTerm {
+  term: string;
+  replacement: string | null;
+}
+
+export interface Glossary {
+  preferred: PreferredTerm[];
+  forbidden: ForbiddenTerm[];
+  // 大文字小文字も含めて一切変更しない語
+  doNotTouch: string[];
+}
+
+export const EMPTY_GLOSSARY: Glossary = {
+  preferred: [],
+  forbidden: [],
+  doNotTouch: []
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 英数字で始まる・終わる語は単語境界でのみマッチさせる（"main" が "domain" にマッチしないように）
+function termPattern(term: string, flags: string): RegExp {
+  const prefix = /^\w/.test(term) ? '(?<!\\w)' : '';
+  const suffix = /\w$/.test(term) ? '(?!\\w)' : '';
+  return new RegExp(`${prefix}${escapeRegExp(term)}${suffix}`, flags);
+}
+
+function countExact(text: string, term: string): number {
+  return (text.match(termPattern(term, 'g')) || []).length;
+}
+
+function containsIgnoreCase(text: string, term: string): boolean {
+  return termPattern(term, 'i').test(text);
+}
+
+function uniqueStrings(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  const strings = values
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(Boolean);
+  return Array.from(new Set(strings));
+}
+
+// 保存値を検証し、空の語や重複を取り除く
+export function sanitizeGlossary(value: unknown): Glossary {
+  if (!value || typeof value !== 'object') {
+    return { ...EMPTY_GLOSSARY };
+  }
+
+  const input = value as Record<string, unknown>;
+  const preferred = Array.isArray(input.preferred) ? input.preferred : [];
+  const forbidden = Array.isArray(input.forbidden) ? input.forbidden : [];
+
+  return {
+    preferred: preferred
+      .filter(entry => entry && typeof entry.term === 'string' && entry.term.trim())
+      .map(entry => ({
+        term: entry.term.trim(),
+        variants: uniqueStrings(entry.variants).filter(variant => variant !== entry.term.trim())
+      })),
+    forbidden: forbidden
+      .filter(entry => entry && typeof entry.term === 'string' && entry.term.trim())
+      .map(entry => ({
+        term: entry.term.trim(),
+        replacement: typeof entry.replacement === 'string' && entry.replacement.trim()
+          ? entry.replacement.trim()
+          : null
+      })),
+    doNotTouch: uniqueStrings(input.doNotTouch)
+  };
+}
+
+export function isGlossaryEmpty(glossary: Glossary): boolean {
+  return glossary.preferred.length === 0 &&
+         glossary.forbidden.length === 0 &&
+         glossary.doNotTouch.length === 0;
+}
+
+// 同じ語のエントリは後から来たもので上書きする
+export function mergeGlossaries(base: Glossary, addition: Glossary): Glossary {
+  const byTerm = <T extends { term: string }>(entries: T[]) =>
+    Array.from(new Map(entries.map(entry => [entry.term, entry])).values());
+
+  return {
+    preferred: byTerm([...base.preferred, ...addition.preferred]),
+    forbidden: byTerm([...base.forbidden, ...addition.forbidden]),
+    doNotTouch: Array.from(new Set([...base.doNotTouch, ...addition.doNotTouch]))
+  };
+}
+
+// プロンプトに追加する用語集の指示（空の場合は空文字）
+export function formatGlossaryForPrompt(glossary: Glossary): string {
+  const lines: string[] = [];
+
+  if (glossary.doNotTouch.length > 0) {
+    lines.push(`- 次の語は綴り・大文字小文字を含めて絶対に変更しない: ${glossary.doNotTouch.map(t => `"${t}"`).join(', ')}`);
+  }
+  glossary.preferred.forEach(({ term, variants }) => {
+    lines.push(variants.length > 0
+      ? `- "${term}" と表記する（${variants.map(v => `"${v}"`).join(', ')} は "${term}" に直す）`
+      : `- "${term}" と表記する`);
+  });
+  glossary.forbidden.forEach(({ term, replacement }) => {
+    lines.push(replacement
+      ? `- "${term}" は使わず "${replacement}" を使う`
+      : `- "${term}" は使わない`);
+  });
+
+  return lines.length > 0 ? `用語集（必ず守ること）：\n${lines.join('\n')}\n\n` : '';
+}
+
+function rewritePreferred(text: string, glossary: Glossary): string {
+  return glossary.preferred.reduce((result, { term, variants }) =>
+    [term, ...variants].reduce(
+      (current, spelling) => current.replace(termPattern(spelling, 'gi'), () => term),
+      result
+    ), text);
+}
+
+// 用語集を守っていれば書き換え後の issue、守れない場合は null
+function enforceOnIssue(issue: CorrectionIssue, glossary: Glossary): CorrectionIssue | null {
+  // 変更しない語・推奨表記を原文から消している修正は除外
+  const protectedTerms = [...glossary.doNotTouch, ...glossary.preferred.map(entry => entry.term)];
+  if (protectedTerms.some(term => countExact(issue.original, term) > countExact(issue.corrected, term))) {
+    return null;
+  }
+
+  let corrected = rewritePreferred(issue.corrected, glossary);
+
+  for (const { term, replacement } of glossary.forbidden) {
+    // 原文にすでにある禁止語は指摘対象外（モデルが持ち込んだ場合のみ扱う）
+    if (!containsIgnoreCase(corrected, term) || containsIgnoreCase(issue.original, term)) continue;
+    if (!replacement) return null;
+    corrected = corrected.replace(termPattern(term, 'gi'), () => replacement);
+  }
+
+  if (corrected === issue.original) {
+    return null;
+  }
+
+  return corrected === issue.corrected ? issue : { ...issue, corrected };
+}
+
+function violatesGlossary(text: string, correctedText: string, glossary: Glossary): boolean {
+  const protectedTerms = [...glossary.doNotTouch, ...glossary.preferred.map(entry => entry.term)];
+  const variants = glossary.preferred.flatMap(entry => entry.variants);
+  return protectedTerms.some(term => countExact(text, term) > countExact(correctedText, term)) ||
+         variants.some(variant => countExact(correctedText, variant) > countExact(text, variant)) ||
+         glossary.forbidden.some(({ term }) =>
+           containsIgnoreCase(correctedText, term) && !containsIgnoreCase(text, term));
+}
+
+// モデルがプロンプトの指示を無視した場合でも用語集を守らせる後処理
+export function enforceGlossary(result: CorrectionResult, text: string, glossary: Glossary): CorrectionResult {
+  if (isGlossaryEmpty(glossary)) {
+    return result;
+  }
+
+  let changed = false;
+  const issues: CorrectionIssue[] = [];
+  result.issues.forEach(issue => {
+    const enforced = enforceOnIssue(issue, glossary);
+    if (enforced !== issue) changed = true;
+    if (enforced) issues.push(enforced);
+  });
+
+  if (issues.length < result.issues.length) {
+    console.log(`Dropped ${result.issues.length - issues.length} issue(s) violating the glossary`);
+  }
+
+  // correctedText も違反していれば、残った issue を原文に適用して作り直す
+  let correctedText = result.correctedText;
+  if (changed || violatesGlossary(text, correctedText, glossary)) {
+    // 置換関数を渡して、モデルの出力や用語集の $& などを置換パターンとして解釈させない
+    correctedText = issues.reduce(
+      (current, issue) => issue.original ? current.replace(issue.original, () => issue.corrected) : current,
+      text
+    );
+  }
+
+  return {
+    ...result,
+    correctedText,
+    issues,
+    needsCorrection: result.needsCorrection && issues.length > 0
+  };
+}
+
+function splitAlternatives(value: string | undefined): string[] {
+  return (value || '').split(/[|;]/).map(item => item.trim()).filter(Boolean);
+}
+
+// "a,b" / "\"a,b\",c" 形式の1行を分割する
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+function fromRows(rows: Array<{ type: string; term: string; alternatives: string[] }>): Glossary {
+  const glossary: Glossary = { preferred: [], forbidden: [], doNotTouch: [] };
+
+  rows.forEach(({ type, term, alternatives }) => {
+    switch (type.toLowerCase()) {
+      case 'preferred':
+        glossary.preferred.push({ term, variants: alternatives });
+        break;
+      case 'forbidden':
+        glossary.forbidden.push({ term, replacement: alternatives[0] || null });
+        break;
+      case 'protected':
+      case 'donottouch':
+        glossary.doNotTouch.push(term);
+        break;
+      default:
+        throw new Error(`不明な種類です: ${type}`);
+    }
+  });
+
+  return sanitizeGlossary(glossary);
+}
+
+// CSV（種類,語,別表記）を読み込む
+// 種類は preferred / forbidden / protected。別表記は | 区切り（forbidden の場合は置き換え先）
+export function parseGlossaryCsv(csv: string): Glossary {
+  const rows = csv
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !line.trim().startsWith('#'))
+    .map(parseCsvLine)
+    .filter(([type]) => type.toLowerCase() !== 'type');
+
+  return fromRows(rows.map(([type, term, alternatives]) => ({
+    type,
+    term: term || '',
+    alternatives: splitAlternatives(alternatives)
+  })));
+}
+
+// JSON は Glossary と同じ形、または CSV と同じ列を持つ配列を受け付ける
+export function parseGlossaryJson(json: string): Glossary {
+  const data = JSON.parse(json);
+
+  if (Array.isArray(data)) {
+    return fromRows(data.map(row => ({
+      type: String(row.type ?? ''),
+      term: String(row.term ?? ''),
+      alternatives: Array.isArray(row.alternatives) ? uniqueStrings(row.alternatives) : splitAlternatives(row.alternatives)
+    })));
+  }
+
+  return sanitizeGlossary(data);
+}
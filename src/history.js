@@ -0,0 +1,199 @@
+// History page script
+import { HistoryStore, computeHistoryStats, historyToCsv } from './historyStore';
+import { ISSUE_TYPE_LABELS, sendRuntimeMessage } from './protocol';
+import { getManagedKeys, loadSettings, saveSettings } from './settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 一覧に表示する最大件数（統計と書き出しは全件が対象）
+const MAX_ROWS = 200;
+
+const ACTION_LABELS = {
+  corrected: '修正版を送信',
+  'as-is': 'そのまま送信',
+  closed: '閉じた'
+};
+
+document.addEventListener('DOMContentLoaded', function() {
+  const store = new HistoryStore();
+  const searchInput = document.getElementById('search');
+  const periodSelect = document.getElementById('period');
+  const historyEnabledInput = document.getElementById('historyEnabled');
+  const retentionDaysInput = document.getElementById('retentionDays');
+  const status = document.getElementById('status');
+
+  let currentEntries = [];
+  let searchTimer = null;
+
+  loadRetentionSettings();
+  refresh();
+
+  searchInput.addEventListener('input', () => {
+    clearTimeout(searchTimer);
+    searchTimer = setTimeout(refresh, 200);
+  });
+  periodSelect.addEventListener('change', refresh);
+  document.getElementById('exportJson').addEventListener('click', exportJson);
+  document.getElementById('exportCsv').addEventListener('click', exportCsv);
+  document.getElementById('saveRetention').addEventListener('click', saveRetention);
+  document.getElementById('purgeExpired').addEventListener('click', purgeExpired);
+  document.getElementById('purgeAll').addEventListener('click', purgeAll);
+
+  async function loadRetentionSettings() {
+    const settings = await loadSettings();
+    historyEnabledInput.checked = settings.historyEnabled;
+    retentionDaysInput.value = settings.historyRetentionDays;
+
+    // 管理者が指定している項目は変更できない
+    const managedKeys = await getManagedKeys();
+    historyEnabledInput.disabled = managedKeys.includes('historyEnabled');
+    retentionDaysInput.disabled = managedKeys.includes('historyRetentionDays');
+  }
+
+  async function refresh() {
+    const days = Number(periodSelect.value);
+    try {
+      currentEntries = await store.list({
+        search: searchInput.value.trim() || undefined,
+        since: days > 0 ? Date.now() - days * DAY_MS : undefined
+      });
+      renderStats(computeHistoryStats(currentEntries));
+      renderEntries(currentEntries);
+    } catch (error) {
+      console.error('履歴の読み込みエラー:', error);
+      showStatus(`履歴を読み込めませんでした: ${error.message}`);
+    }
+  }
+
+  function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  function renderBars(rows, className = '') {
+    const max = Math.max(1, ...rows.map(row => row.value));
+    return rows.map(row => `
+      <div class="bar-row">
+        <span class="bar-label" title="${escapeHtml(row.label)}">${escapeHtml(row.label)}</span>
+        <span class="bar ${className}" style="width: ${(row.value / max) * 200}px;"></span>
+        <span class="bar-value">${row.value}</span>
+      </div>
+    `).join('');
+  }
+
+  function renderStats(stats) {
+    document.getElementById('statTotal').textContent = stats.total;
+    document.getElementById('statDialog').textContent = stats.dialogShown;
+    document.getElementById('statAcceptance').textContent = `${Math.round(stats.acceptanceRate * 100)}%`;
+    document.getElementById('statLatency').textContent = `${Math.round(stats.averageLatencyMs)}ms`;
+
+    const dailyChart = document.getElementById('dailyChart');
+    dailyChart.innerHTML = stats.daily.length > 0
+      ? renderBars(stats.daily.map(day => ({ label: day.date, value: day.issues })), 'issues')
+      : '<p class="empty">データがありません</p>';
+
+    const typeChart = document.getElementById('typeChart');
+    const types = Object.entries(stats.issuesByType);
+    typeChart.innerHTML = types.length > 0
+      ? renderBars(types.map(([type, count]) => ({ label: ISSUE_TYPE_LABELS[type] || type, value: count })))
+      : '<p class="empty">データがありません</p>';
+
+    const mistakeTable = document.getElementById('mistakeTable');
+    mistakeTable.innerHTML = stats.frequentMistakes.length > 0
+      ? stats.frequentMistakes.map(mistake => `
+        <tr>
+          <td class="mistake-original">${escapeHtml(mistake.original)}</td>
+          <td class="mistake-corrected">${escapeHtml(mistake.corrected)}</td>
+          <td>${mistake.count}</td>
+        </tr>
+      `).join('')
+      : '<tr><td colspan="3" class="empty">データがありません</td></tr>';
+  }
+
+  function renderEntries(entries) {
+    const historyTable = document.getElementById('historyTable');
+    historyTable.innerHTML = entries.length > 0
+      ? entries.slice(0, MAX_ROWS).map(entry => `
+        <tr>
+          <td>${escapeHtml(new Date(entry.createdAt).toLocaleString())}</td>
+          <td>${escapeHtml(entry.isDM ? 'DM' : (entry.channelName || entry.channelId || '-'))}</td>
+          <td class="text-cell">${escapeHtml(entry.originalText)}</td>
+          <td class="text-cell">${escapeHtml(entry.correctedText)}</td>
+          <td>${entry.issues.length}</td>
+          <td><span class="action-badge ${entry.action}">${ACTION_LABELS[entry.action] || entry.action}</span></td>
+        </tr>
+      `).join('')
+      : '<tr><td colspan="6" class="empty">履歴がありません</td></tr>';
+
+    document.getElementById('historyCount').textContent = entries.length > MAX_ROWS
+      ? `${entries.length}件中、新しい${MAX_ROWS}件を表示しています`
+      : `${entries.length}件`;
+  }
+
+  function download(filename, content, type) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function exportFilename(extension) {
+    return `slack-correction-history-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  }
+
+  function exportJson() {
+    download(exportFilename('json'), JSON.stringify(currentEntries, null, 2), 'application/json');
+  }
+
+  function exportCsv() {
+    // Excelで文字化けしないようにBOMを付ける
+    download(exportFilename('csv'), '\uFEFF' + historyToCsv(currentEntries), 'text/csv');
+  }
+
+  async function saveRetention() {
+    const retentionDays = Number(retentionDaysInput.value);
+    if (!Number.isInteger(retentionDays) || retentionDays < 0 || retentionDays > 3650) {
+      showStatus('保持期間は0〜3650の整数で入力してください');
+      return;
+    }
+
+    await saveSettings({
+      historyEnabled: historyEnabledInput.checked,
+      historyRetentionDays: retentionDays
+    });
+    showStatus('保存しました');
+  }
+
+  async function purgeExpired() {
+    const settings = await loadSettings();
+    const deleted = await store.applyRetention(settings.historyRetentionDays);
+    if (deleted > 0) notifyHistoryChanged();
+    showStatus(`${deleted}件の履歴を削除しました`);
+    refresh();
+  }
+
+  async function purgeAll() {
+    if (!confirm('すべての校正履歴を削除しますか？この操作は取り消せません。')) {
+      return;
+    }
+    await store.clear();
+    notifyHistoryChanged();
+    showStatus('すべての履歴を削除しました');
+    refresh();
+  }
+
+  // 繰り返しの指摘のバッジが削除した履歴を数えないよう background に知らせる
+  function notifyHistoryChanged() {
+    sendRuntimeMessage({ action: 'historyChanged' })
+      .catch(error => console.error('履歴の変更を通知できませんでした:', error));
+  }
+
+  function showStatus(message) {
+    status.textContent = message;
+    setTimeout(() => {
+      status.textContent = '';
+    }, 5000);
+  }
+});
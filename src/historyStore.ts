@@ -0,0 +1,237 @@
+// 校正履歴（拡張機能のオリジンの IndexedDB に保存）
+//
+// content script から直接開くと Slack のオリジンに保存されてしまうため、
+// 書き込みは background 経由で行い、履歴ページからは直接読み出す。
+
+import { CorrectionIssue } from './providers';
+
+const DB_NAME = 'slackMessageCorrection';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+// corrected: 修正版を送信 / as-is: そのまま送信 / closed: ダイアログを閉じた
+export type HistoryAction = 'corrected' | 'as-is' | 'closed';
+
+export interface HistoryIssue extends CorrectionIssue {
+  // ダイアログで採用・却下した場合のみ
+  decision?: 'accepted' | 'rejected';
+}
+
+export interface HistoryEntry {
+  id?: number;
+  createdAt: number;
+  originalText: string;
+  correctedText: string;
+  // 実際に送信したテキスト（閉じた場合は null）
+  sentText: string | null;
+  issues: HistoryIssue[];
+  score: number;
+  action: HistoryAction;
+  // スコアがしきい値未満の場合はダイアログを表示せずに送信する
+  dialogShown: boolean;
+  latencyMs: number;
+  workspace: string | null;
+  channelId: string | null;
+  channelName: string | null;
+  isDM: boolean;
+  providerId?: string;
+  model?: string;
+}
+
+export interface HistoryQuery {
+  // 原文・校正文・チャンネル名の部分一致
+  search?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function matchesSearch(entry: HistoryEntry, search: string): boolean {
+  const needle = search.toLowerCase();
+  return [entry.originalText, entry.correctedText, entry.sentText || '', entry.channelName || '', entry.channelId || '']
+    .some(value => value.toLowerCase().includes(needle));
+}
+
+export class HistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async add(entry: HistoryEntry): Promise<number> {
+    const { id: _id, ...withoutId } = entry;
+    const store = await this.transaction('readwrite');
+    return promisify(store.add(withoutId)) as Promise<number>;
+  }
+
+  // 新しい順に返す
+  async list(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const store = await this.transaction('readonly');
+    const range = query.since !== undefined || query.until !== undefined
+      ? IDBKeyRange.bound(query.since ?? 0, query.until ?? Number.MAX_SAFE_INTEGER)
+      : undefined;
+
+    return new Promise((resolve, reject) => {
+      const entries: HistoryEntry[] = [];
+      const request = store.index('createdAt').openCursor(range, 'prev');
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (query.limit !== undefined && entries.length >= query.limit)) {
+          resolve(entries);
+          return;
+        }
+        const entry = cursor.value as HistoryEntry;
+        if (!query.search || matchesSearch(entry, query.search)) {
+          entries.push(entry);
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 指定時刻より古い履歴を削除し、削除件数を返す
+  async purgeOlderThan(timestamp: number): Promise<number> {
+    const store = await this.transaction('readwrite');
+
+    return new Promise((resolve, reject) => {
+      let deleted = 0;
+      const request = store.index('createdAt').openCursor(IDBKeyRange.upperBound(timestamp, true));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(deleted);
+          return;
+        }
+        cursor.delete();
+        deleted++;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 保持期間（日数）を過ぎた履歴を削除する。0 は無期限
+  async applyRetention(retentionDays: number): Promise<number> {
+    if (retentionDays <= 0) return 0;
+    return this.purgeOlderThan(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.transaction('readwrite');
+    await promisify(store.clear());
+  }
+}
+
+export interface HistoryStats {
+  total: number;
+  dialogShown: number;
+  // ダイアログを表示したうち修正版を送信した割合
+  acceptanceRate: number;
+  issuesByType: Record<string, number>;
+  averageLatencyMs: number;
+  // 日ごとの件数と指摘数（古い順）
+  daily: Array<{ date: string; analyses: number; issues: number }>;
+  // よくある間違い（original → corrected の組み合わせ）
+  frequentMistakes: Array<{ original: string; corrected: string; count: number }>;
+}
+
+function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function computeHistoryStats(entries: HistoryEntry[], maxMistakes = 10): HistoryStats {
+  const withDialog = entries.filter(entry => entry.dialogShown);
+  const issuesByType: Record<string, number> = {};
+  const daily = new Map<string, { analyses: number; issues: number }>();
+  const mistakes = new Map<string, { original: string; corrected: string; count: number }>();
+
+  entries.forEach(entry => {
+    const day = daily.get(toDateKey(entry.createdAt)) || { analyses: 0, issues: 0 };
+    day.analyses++;
+    day.issues += entry.issues.length;
+    daily.set(toDateKey(entry.createdAt), day);
+
+    entry.issues.forEach(issue => {
+      issuesByType[issue.type] = (issuesByType[issue.type] || 0) + 1;
+
+      const key = `${issue.original}\u0000${issue.corrected}`;
+      const mistake = mistakes.get(key) || { original: issue.original, corrected: issue.corrected, count: 0 };
+      mistake.count++;
+      mistakes.set(key, mistake);
+    });
+  });
+
+  return {
+    total: entries.length,
+    dialogShown: withDialog.length,
+    acceptanceRate: withDialog.length > 0
+      ? withDialog.filter(entry => entry.action === 'corrected').length / withDialog.length
+      : 0,
+    issuesByType,
+    averageLatencyMs: entries.length > 0
+      ? entries.reduce((sum, entry) => sum + entry.latencyMs, 0) / entries.length
+      : 0,
+    daily: Array.from(daily, ([date, counts]) => ({ date, ...counts })).sort((a, b) => a.date.localeCompare(b.date)),
+    frequentMistakes: Array.from(mistakes.values())
+      .filter(mistake => mistake.original)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, maxMistakes)
+  };
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = [
+  'createdAt', 'action', 'dialogShown', 'score', 'latencyMs', 'workspace', 'channelId', 'channelName',
+  'isDM', 'providerId', 'model', 'issueCount', 'originalText', 'correctedText', 'sentText'
+] as const;
+
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => {
+    switch (column) {
+      case 'createdAt':
+        return csvField(new Date(entry.createdAt).toISOString());
+      case 'issueCount':
+        return csvField(entry.issues.length);
+      default:
+        return csvField(entry[column]);
+    }
+  }).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
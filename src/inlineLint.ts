@@ -0,0 +1,391 @@
+// 入力中のインライン校正（オプション）
+//
+// 入力が止まってから、文末・改行で区切られた文ごとに校正し、
+// 入力欄の上に重ねたレイヤーに波線を描く。Slack の入力欄のDOMには手を加えない。
+
+import type { CorrectionIssue } from './providers';
+import { isInsideEntity, serializeComposer, toPlainText } from './composer';
+import type { ToneTarget } from './policies';
+import { sendRuntimeMessage } from './protocol';
+
+// 入力が止まってから校正するまでの時間
+const DEBOUNCE_MS = 1500;
+// 文ごとの結果のキャッシュ件数
+const MAX_CACHED_SEGMENTS = 200;
+// これより短い文は校正しない
+const MIN_SEGMENT_LENGTH = 3;
+const SENTENCE_END = /[.!?。！？]/;
+// 全角の句点などは直後に空白がなくても文末とみなす
+const CJK_SENTENCE_END = /[。！？]/;
+
+export interface Segment {
+  text: string;
+  start: number;
+}
+
+// 原文全体での位置を持つ指摘
+interface LintIssue extends CorrectionIssue {
+  start: number;
+  end: number;
+}
+
+interface EditorState {
+  timer: ReturnType<typeof setTimeout> | null;
+  // 古いリクエストの結果を捨てるための世代番号
+  generation: number;
+  issues: LintIssue[];
+  layer: HTMLElement;
+}
+
+export interface InlineLinterOptions {
+  isEnabled: () => boolean;
+  severityThreshold: () => number;
+  toneTarget: () => ToneTarget;
+  // execCommand が使えない場合に入力欄全体を書き換える
+  replaceText: (editor: HTMLElement, text: string) => void;
+}
+
+// 文末記号または改行で終わっている（書き終えた）文だけを切り出す
+export function splitCompletedSegments(text: string): Segment[] {
+  const segments: Segment[] = [];
+  let segmentStart = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(segmentStart, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed.length >= MIN_SEGMENT_LENGTH) {
+      segments.push({ text: trimmed, start: segmentStart + leading });
+    }
+    segmentStart = end;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') {
+      push(i);
+    } else if (SENTENCE_END.test(char) && !SENTENCE_END.test(text[i + 1] || '')) {
+      // "..." や "?!" は最後の記号で区切る
+      if (CJK_SENTENCE_END.test(char) || i + 1 === text.length || /\s/.test(text[i + 1])) {
+        push(i + 1);
+      }
+    }
+  }
+
+  return segments;
+}
+
+export class InlineLinter {
+  private states = new Map<HTMLElement, EditorState>();
+  private segmentCache = new Map<string, CorrectionIssue[]>();
+  // このタブで無視した指摘（original と corrected の組）
+  private ignored = new Set<string>();
+  private popover: HTMLElement | null = null;
+  private popoverTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: InlineLinterOptions) {
+    document.addEventListener('input', this.handleInput, true);
+    window.addEventListener('resize', this.renderAll);
+    // 入力欄やメッセージ一覧のスクロールに追従する
+    document.addEventListener('scroll', this.renderAll, true);
+  }
+
+  private handleInput = (e: Event): void => {
+    const editor = (e.target as HTMLElement | null)?.closest?.('.ql-editor') as HTMLElement | null;
+    if (!editor) return;
+
+    this.hidePopover();
+
+    if (!this.options.isEnabled()) {
+      this.clear(editor);
+      return;
+    }
+
+    const state = this.getState(editor);
+    // 入力で位置がずれるので、すぐに描き直してから校正を待つ
+    this.render(editor);
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      this.lint(editor).catch(error => console.error('🔧 Inline lint error:', error));
+    }, DEBOUNCE_MS);
+  };
+
+  private getState(editor: HTMLElement): EditorState {
+    let state = this.states.get(editor);
+    if (!state) {
+      const layer = document.createElement('div');
+      layer.className = 'slack-corrector-lint-layer';
+      document.body.appendChild(layer);
+      state = { timer: null, generation: 0, issues: [], layer };
+      this.states.set(editor, state);
+    }
+    return state;
+  }
+
+  clear(editor: HTMLElement): void {
+    const state = this.states.get(editor);
+    if (!state) return;
+    if (state.timer) clearTimeout(state.timer);
+    state.layer.remove();
+    this.states.delete(editor);
+  }
+
+  clearAll(): void {
+    Array.from(this.states.keys()).forEach(editor => this.clear(editor));
+    this.hidePopover();
+  }
+
+  async lint(editor: HTMLElement): Promise<void> {
+    const state = this.getState(editor);
+    const generation = ++state.generation;
+    const text = toPlainText(serializeComposer(editor));
+    const issues: LintIssue[] = [];
+
+    for (const segment of splitCompletedSegments(text)) {
+      const segmentIssues = await this.correctSegment(segment.text);
+      // 校正中に入力が進んだ場合は結果を捨てる
+      if (generation !== state.generation || !this.states.has(editor)) return;
+      if (segmentIssues === null) break;
+
+      segmentIssues.forEach(issue => {
+        const relativeStart = typeof issue.start === 'number' ? issue.start : segment.text.indexOf(issue.original);
+        if (relativeStart < 0) return;
+        issues.push({
+          ...issue,
+          start: segment.start + relativeStart,
+          end: segment.start + relativeStart + issue.original.length
+        });
+      });
+    }
+
+    state.issues = issues.filter(issue =>
+      issue.original &&
+      issue.severity > this.options.severityThreshold() &&
+      !this.ignored.has(this.issueKey(issue))
+    );
+    this.render(editor);
+  }
+
+  // 失敗した場合は null（APIキー未設定・サーキットブレーカー作動中など）
+  private async correctSegment(text: string): Promise<CorrectionIssue[] | null> {
+    const cached = this.segmentCache.get(text);
+    if (cached) return cached;
+
+    try {
+      const response = await sendRuntimeMessage({
+        action: 'correctText',
+        text,
+        toneTarget: this.options.toneTarget()
+      });
+
+      if (!response.success || !response.data) {
+        console.log('🔧 Inline lint skipped:', response.error);
+        return null;
+      }
+
+      if (this.segmentCache.size >= MAX_CACHED_SEGMENTS) {
+        this.segmentCache.delete(this.segmentCache.keys().next().value as string);
+      }
+      this.segmentCache.set(text, response.data.issues);
+      return response.data.issues;
+    } catch (error) {
+      console.error('🔧 Inline lint request failed:', error);
+      return null;
+    }
+  }
+
+  private issueKey(issue: CorrectionIssue): string {
+    return `${issue.original}\u0000${issue.corrected}`;
+  }
+
+  private renderAll = (): void => {
+    this.states.forEach((_, editor) => this.render(editor));
+  };
+
+  // 原文上の位置に最も近い original の出現箇所を DOM の Range として求める
+  private findRange(editor: HTMLElement, issue: LintIssue): Range | null {
+    const nodes: Text[] = [];
+    const starts: number[] = [];
+    let flat = '';
+
+    const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (isInsideEntity(node, editor)) continue;
+      nodes.push(node as Text);
+      starts.push(flat.length);
+      flat += (node as Text).data;
+    }
+
+    let best = -1;
+    for (let index = flat.indexOf(issue.original); index !== -1; index = flat.indexOf(issue.original, index + 1)) {
+      if (best === -1 || Math.abs(index - issue.start) < Math.abs(best - issue.start)) {
+        best = index;
+      }
+    }
+    if (best === -1) return null;
+
+    const locate = (offset: number, preferNext: boolean) => {
+      for (let i = nodes.length - 1; i >= 0; i--) {
+        const inNode = offset - starts[i];
+        if (inNode > 0 || (inNode === 0 && (preferNext || i === 0))) {
+          return { node: nodes[i], offset: Math.min(inNode, nodes[i].length) };
+        }
+      }
+      return null;
+    };
+
+    const start = locate(best, true);
+    const end = locate(best + issue.original.length, false);
+    if (!start || !end) return null;
+
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    return range;
+  }
+
+  render(editor: HTMLElement): void {
+    const state = this.states.get(editor);
+    if (!state) return;
+
+    if (!editor.isConnected) {
+      this.clear(editor);
+      return;
+    }
+
+    state.layer.replaceChildren();
+    const bounds = editor.getBoundingClientRect();
+
+    state.issues.forEach((issue, index) => {
+      const range = this.findRange(editor, issue);
+      if (!range) return;
+
+      Array.from(range.getClientRects()).forEach(rect => {
+        // 入力欄の外（スクロールで隠れた部分）には描かない
+        if (rect.bottom < bounds.top || rect.top > bounds.bottom || rect.width === 0) return;
+
+        const underline = document.createElement('div');
+        underline.className = `slack-corrector-lint-underline lint-${issue.type}`;
+        underline.style.left = `${rect.left}px`;
+        underline.style.top = `${rect.bottom - 3}px`;
+        underline.style.width = `${rect.width}px`;
+        underline.addEventListener('mouseenter', () => this.showPopover(editor, index, rect));
+        underline.addEventListener('mouseleave', () => this.scheduleHidePopover());
+        underline.addEventListener('mousedown', e => {
+          // 入力欄のフォーカスを奪わない
+          e.preventDefault();
+          this.showPopover(editor, index, rect);
+        });
+        state.layer.appendChild(underline);
+      });
+    });
+  }
+
+  private showPopover(editor: HTMLElement, index: number, rect: DOMRect): void {
+    const issue = this.states.get(editor)?.issues[index];
+    if (!issue) return;
+
+    this.hidePopover();
+
+    const popover = document.createElement('div');
+    popover.className = 'slack-corrector-lint-popover';
+    popover.style.left = `${rect.left}px`;
+    popover.style.top = `${rect.bottom + 6}px`;
+
+    const change = document.createElement('div');
+    change.className = 'lint-change';
+    const original = document.createElement('span');
+    original.className = 'lint-original';
+    original.textContent = issue.original;
+    const corrected = document.createElement('span');
+    corrected.className = 'lint-corrected';
+    corrected.textContent = issue.corrected;
+    change.append(original, ' → ', corrected);
+
+    const reason = document.createElement('div');
+    reason.className = 'lint-reason';
+    reason.textContent = issue.reason;
+
+    const fixButton = document.createElement('button');
+    fixButton.className = 'lint-fix';
+    fixButton.textContent = '修正する';
+    const ignoreButton = document.createElement('button');
+    ignoreButton.className = 'lint-ignore';
+    ignoreButton.textContent = '無視';
+
+    const actions = document.createElement('div');
+    actions.className = 'lint-actions';
+    actions.append(fixButton, ignoreButton);
+
+    popover.append(change, reason, actions);
+    // ボタンを押しても入力欄のフォーカスを奪わない
+    popover.addEventListener('mousedown', e => e.preventDefault());
+    popover.addEventListener('mouseenter', () => this.cancelHidePopover());
+    popover.addEventListener('mouseleave', () => this.scheduleHidePopover());
+
+    fixButton.addEventListener('click', () => {
+      this.applyFix(editor, issue);
+      this.hidePopover();
+    });
+    ignoreButton.addEventListener('click', () => {
+      this.ignored.add(this.issueKey(issue));
+      this.removeIssue(editor, issue);
+      this.hidePopover();
+    });
+
+    document.body.appendChild(popover);
+    this.popover = popover;
+  }
+
+  private scheduleHidePopover(): void {
+    this.cancelHidePopover();
+    this.popoverTimer = setTimeout(() => this.hidePopover(), 300);
+  }
+
+  private cancelHidePopover(): void {
+    if (this.popoverTimer) {
+      clearTimeout(this.popoverTimer);
+      this.popoverTimer = null;
+    }
+  }
+
+  private hidePopover(): void {
+    this.cancelHidePopover();
+    this.popover?.remove();
+    this.popover = null;
+  }
+
+  private removeIssue(editor: HTMLElement, issue: LintIssue): void {
+    const state = this.states.get(editor);
+    if (!state) return;
+    state.issues = state.issues.filter(i => i !== issue);
+    this.render(editor);
+  }
+
+  private applyFix(editor: HTMLElement, issue: LintIssue): void {
+    console.log('🔧 Applying inline fix:', issue.original, '→', issue.corrected);
+    const range = this.findRange(editor, issue);
+    if (!range) return;
+
+    // 選択して置き換えることで、Quill の状態と元に戻す（Ctrl+Z）の履歴を保つ
+    editor.focus();
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    if (!document.execCommand('insertText', false, issue.corrected)) {
+      const text = toPlainText(serializeComposer(editor));
+      const start = text.indexOf(issue.original, Math.max(0, issue.start - issue.original.length));
+      const index = start === -1 ? text.indexOf(issue.original) : start;
+      if (index !== -1) {
+        this.options.replaceText(
+          editor,
+          text.slice(0, index) + issue.corrected + text.slice(index + issue.original.length)
+        );
+      }
+    }
+
+    this.removeIssue(editor, issue);
+  }
+}
@@ -0,0 +1,206 @@
+// パスフレーズで暗号化したAPIキーの保管庫
+//
+// 保管庫を有効にすると、APIキーはパスフレーズから導出した鍵（PBKDF2 + AES-GCM）で暗号化して
+// chrome.storage.local に保存し、平文のキーは残さない。ロック解除したキーは
+// chrome.storage.session（ブラウザを閉じると消え、content script からは読めない）にだけ置き、
+// 一定時間使われなければ自動でロックする。
+
+const VAULT_KEY = 'apiKeyVault';
+const SESSION_KEY = 'unlockedApiKeys';
+// 自動ロック用のアラーム名（background で受け取る）
+export const AUTO_LOCK_ALARM = 'apiKeyVaultAutoLock';
+
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface EncryptedValue {
+  iv: string;
+  ciphertext: string;
+}
+
+interface StoredVault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  // APIキーの保存キー（claudeApiKey など）→ 暗号化したキー
+  entries: Record<string, EncryptedValue>;
+}
+
+interface UnlockedKeys {
+  keys: Record<string, string>;
+  // 自動ロックする時刻（null はブラウザを閉じるまで）
+  expiresAt: number | null;
+  autoLockMinutes: number;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('APIキーがロックされています。表示されたウィンドウでパスフレーズを入力してロックを解除してください。');
+    this.name = 'VaultLockedError';
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encrypt(key: CryptoKey, value: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decrypt(key: CryptoKey, value: EncryptedValue): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+export class KeyVault {
+  async isEnabled(): Promise<boolean> {
+    return (await this.loadVault()) !== null;
+  }
+
+  async hasKey(storageKey: string): Promise<boolean> {
+    const vault = await this.loadVault();
+    return !!vault && storageKey in vault.entries;
+  }
+
+  async isUnlocked(): Promise<boolean> {
+    return (await this.loadUnlocked()) !== null;
+  }
+
+  // 平文で保存されていたキーも含めて暗号化し、保管庫を有効にする（ロック解除した状態になる）
+  async enable(passphrase: string, keys: Record<string, string>, autoLockMinutes: number): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    await this.writeVault(passphrase, salt, PBKDF2_ITERATIONS, keys);
+    await chrome.storage.local.remove(Object.keys(keys));
+    await this.setUnlocked(keys, autoLockMinutes);
+  }
+
+  // キーを追加・変更する（パスフレーズが違う場合はエラー）
+  async store(passphrase: string, updates: Record<string, string>, autoLockMinutes: number): Promise<void> {
+    const vault = await this.requireVault();
+    const keys = { ...await this.decryptAll(vault, passphrase), ...updates };
+    await this.writeVault(passphrase, fromBase64(vault.salt), vault.iterations, keys);
+    await this.setUnlocked(keys, autoLockMinutes);
+  }
+
+  // 保管庫をやめて平文の保存に戻す
+  async disable(passphrase: string): Promise<Record<string, string>> {
+    const keys = await this.decryptAll(await this.requireVault(), passphrase);
+    await chrome.storage.local.set(keys);
+    await chrome.storage.local.remove(VAULT_KEY);
+    await this.lock();
+    return keys;
+  }
+
+  async unlock(passphrase: string, autoLockMinutes: number): Promise<void> {
+    const keys = await this.decryptAll(await this.requireVault(), passphrase);
+    await this.setUnlocked(keys, autoLockMinutes);
+  }
+
+  async lock(): Promise<void> {
+    await chrome.storage.session.remove(SESSION_KEY);
+    await chrome.alarms.clear(AUTO_LOCK_ALARM);
+  }
+
+  // 保管庫が無効なら平文のキーを返す。ロック中なら VaultLockedError を投げる。
+  // 使うたびに自動ロックまでの時間を延ばす
+  async getApiKey(storageKey: string): Promise<string | undefined> {
+    if (!(await this.isEnabled())) {
+      const stored = await chrome.storage.local.get([storageKey]);
+      return stored[storageKey] as string | undefined;
+    }
+
+    const unlocked = await this.loadUnlocked();
+    if (!unlocked) {
+      throw new VaultLockedError();
+    }
+
+    await this.setUnlocked(unlocked.keys, unlocked.autoLockMinutes);
+    return unlocked.keys[storageKey];
+  }
+
+  private async loadVault(): Promise<StoredVault | null> {
+    const result = await chrome.storage.local.get([VAULT_KEY]);
+    return (result[VAULT_KEY] as StoredVault) || null;
+  }
+
+  private async requireVault(): Promise<StoredVault> {
+    const vault = await this.loadVault();
+    if (!vault) {
+      throw new Error('APIキーはパスフレーズで保護されていません');
+    }
+    return vault;
+  }
+
+  private async writeVault(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number, keys: Record<string, string>): Promise<void> {
+    const key = await deriveKey(passphrase, salt, iterations);
+    const entries: Record<string, EncryptedValue> = {};
+    for (const [storageKey, value] of Object.entries(keys)) {
+      if (value) entries[storageKey] = await encrypt(key, value);
+    }
+
+    const vault: StoredVault = { version: 1, salt: toBase64(salt), iterations, entries };
+    await chrome.storage.local.set({ [VAULT_KEY]: vault });
+  }
+
+  private async decryptAll(vault: StoredVault, passphrase: string): Promise<Record<string, string>> {
+    const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+    const keys: Record<string, string> = {};
+    try {
+      for (const [storageKey, value] of Object.entries(vault.entries)) {
+        keys[storageKey] = await decrypt(key, value);
+      }
+    } catch {
+      // AES-GCM の認証に失敗した＝パスフレーズが違う
+      throw new Error('パスフレーズが正しくありません');
+    }
+    return keys;
+  }
+
+  private async loadUnlocked(): Promise<UnlockedKeys | null> {
+    const result = await chrome.storage.session.get([SESSION_KEY]);
+    const unlocked = result[SESSION_KEY] as UnlockedKeys | undefined;
+    if (!unlocked) return null;
+
+    // アラームが間に合わなかった場合（サービスワーカーの停止中など）もここでロックする
+    if (unlocked.expiresAt !== null && Date.now() >= unlocked.expiresAt) {
+      await this.lock();
+      return null;
+    }
+    return unlocked;
+  }
+
+  // 0 分の場合はブラウザを閉じるまでロックしない
+  private async setUnlocked(keys: Record<string, string>, autoLockMinutes: number): Promise<void> {
+    const expiresAt = autoLockMinutes > 0 ? Date.now() + autoLockMinutes * 60 * 1000 : null;
+    const unlocked: UnlockedKeys = { keys, expiresAt, autoLockMinutes };
+    await chrome.storage.session.set({ [SESSION_KEY]: unlocked });
+
+    if (expiresAt !== null) {
+      await chrome.alarms.create(AUTO_LOCK_ALARM, { when: expiresAt });
+    } else {
+      await chrome.alarms.clear(AUTO_LOCK_ALARM);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// 繰り返している間違いの学習モード
+//
+// 校正履歴から同じ「original → corrected」の指摘をまとめ、頻度と重要度で順位付けする。
+// 復習はライトナー方式の間隔反復（覚えていれば間隔を延ばし、忘れていれば最初に戻す）で行う。
+
+import type { HistoryEntry } from './historyStore';
+
+const STORAGE_KEY = 'learningReviews';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// ボックスごとの次回復習までの日数
+const REVIEW_INTERVAL_DAYS = [1, 2, 4, 8, 16, 32];
+
+export interface MistakePattern {
+  // 大文字小文字と空白を正規化した original と corrected の組
+  key: string;
+  original: string;
+  corrected: string;
+  type: string;
+  reason: string;
+  count: number;
+  averageSeverity: number;
+  lastSeenAt: number;
+  // 頻度と重要度から計算した順位付け用のスコア
+  rank: number;
+}
+
+export interface ReviewState {
+  box: number;
+  dueAt: number;
+  lastReviewedAt: number | null;
+}
+
+export type ReviewStates = Record<string, ReviewState>;
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function mistakeKey(original: string, corrected: string): string {
+  return `${normalize(original)}\u0000${normalize(corrected)}`;
+}
+
+// minCount 回以上繰り返している指摘をまとめる（rank の高い順）
+export function groupRecurringMistakes(entries: HistoryEntry[], minCount = 2): MistakePattern[] {
+  const patterns = new Map<string, MistakePattern & { totalSeverity: number }>();
+
+  entries.forEach(entry => {
+    entry.issues.forEach(issue => {
+      if (!issue.original || issue.decision === 'rejected') return;
+
+      const key = mistakeKey(issue.original, issue.corrected);
+      const pattern = patterns.get(key) || {
+        key,
+        original: issue.original,
+        corrected: issue.corrected,
+        type: issue.type,
+        reason: issue.reason,
+        count: 0,
+        totalSeverity: 0,
+        averageSeverity: 0,
+        lastSeenAt: 0,
+        rank: 0
+      };
+
+      pattern.count++;
+      pattern.totalSeverity += issue.severity;
+      if (entry.createdAt >= pattern.lastSeenAt) {
+        // 表示には最新の表記と理由を使う
+        pattern.lastSeenAt = entry.createdAt;
+        pattern.original = issue.original;
+        pattern.corrected = issue.corrected;
+        pattern.reason = issue.reason;
+      }
+      patterns.set(key, pattern);
+    });
+  });
+
+  return Array.from(patterns.values())
+    .filter(pattern => pattern.count >= minCount)
+    .map(({ totalSeverity, ...pattern }) => {
+      const averageSeverity = totalSeverity / pattern.count;
+      return { ...pattern, averageSeverity, rank: pattern.count * (0.5 + averageSeverity) };
+    })
+    .sort((a, b) => b.rank - a.rank);
+}
+
+// 過去の履歴に同じ指摘が何回あったかを数えるための索引
+// （groupRecurringMistakes と同じく却下した指摘は数えない）
+export function countMistakes(entries: HistoryEntry[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => {
+    entry.issues.forEach(issue => {
+      if (!issue.original || issue.decision === 'rejected') return;
+      const key = mistakeKey(issue.original, issue.corrected);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+  return counts;
+}
+
+// 期限が来ている（または未復習の）パターンを rank の高い順に size 件選ぶ
+export function buildReviewDeck(patterns: MistakePattern[], states: ReviewStates, now = Date.now(), size = 10): MistakePattern[] {
+  return patterns
+    .filter(pattern => !states[pattern.key] || states[pattern.key].dueAt <= now)
+    .slice(0, size);
+}
+
+export function gradeReview(state: ReviewState | undefined, remembered: boolean, now = Date.now()): ReviewState {
+  const box = remembered
+    ? Math.min((state?.box ?? 0) + 1, REVIEW_INTERVAL_DAYS.length - 1)
+    : 0;
+  return {
+    box,
+    dueAt: now + REVIEW_INTERVAL_DAYS[box] * DAY_MS,
+    lastReviewedAt: now
+  };
+}
+
+// 復習の進み具合は chrome.storage.local に保存する（履歴と同じく同期しない）
+export class ReviewStore {
+  async load(): Promise<ReviewStates> {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    return (result[STORAGE_KEY] as ReviewStates) || {};
+  }
+
+  async grade(key: string, remembered: boolean): Promise<ReviewState> {
+    const states = await this.load();
+    const next = gradeReview(states[key], remembered);
+    await chrome.storage.local.set({ [STORAGE_KEY]: { ...states, [key]: next } });
+    return next;
+  }
+
+  async clear(): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_KEY);
+  }
+}
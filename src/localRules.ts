@@ -0,0 +1,358 @@
+// ネットワークなしで動くルールベースの簡易チェック
+//
+// APIが使えないとき（オフライン・障害・サーキットブレーカー作動中）のフォールバック。
+// よくあるスペルミス・単語の重複・句読点まわりのスペース・a/an・閉じていない括弧や引用符を
+// 検出し、API と同じ CorrectionResult の形で返すので、校正ダイアログをそのまま使える。
+// コード・URL・メンションなどの保護スパンはチェックしない。
+
+import { maskProtectedSpans } from './masking';
+import type { CorrectionIssue, CorrectionResult } from './providers';
+
+// よくある英語のスペルミス（小文字）
+const MISSPELLINGS: Record<string, string> = {
+  abscence: 'absence',
+  accomodate: 'accommodate',
+  acheive: 'achieve',
+  accross: 'across',
+  adress: 'address',
+  agressive: 'aggressive',
+  alot: 'a lot',
+  allready: 'already',
+  apparantly: 'apparently',
+  appearence: 'appearance',
+  arguement: 'argument',
+  assasination: 'assassination',
+  basicly: 'basically',
+  begining: 'beginning',
+  beleive: 'believe',
+  belive: 'believe',
+  buisness: 'business',
+  calender: 'calendar',
+  catagory: 'category',
+  cemetary: 'cemetery',
+  collegue: 'colleague',
+  comming: 'coming',
+  commited: 'committed',
+  commitee: 'committee',
+  completly: 'completely',
+  concious: 'conscious',
+  definately: 'definitely',
+  definetly: 'definitely',
+  dependancy: 'dependency',
+  develope: 'develop',
+  diffrent: 'different',
+  dilema: 'dilemma',
+  dissapoint: 'disappoint',
+  doesnt: "doesn't",
+  dont: "don't",
+  embarass: 'embarrass',
+  enviroment: 'environment',
+  existance: 'existence',
+  experiance: 'experience',
+  familar: 'familiar',
+  finaly: 'finally',
+  foriegn: 'foreign',
+  foward: 'forward',
+  freind: 'friend',
+  goverment: 'government',
+  grammer: 'grammar',
+  guage: 'gauge',
+  happend: 'happened',
+  harrass: 'harass',
+  havent: "haven't",
+  hieght: 'height',
+  immediatly: 'immediately',
+  independant: 'independent',
+  infomation: 'information',
+  interupt: 'interrupt',
+  isnt: "isn't",
+  knowlege: 'knowledge',
+  lenght: 'length',
+  libary: 'library',
+  liason: 'liaison',
+  lisence: 'license',
+  maintainance: 'maintenance',
+  managment: 'management',
+  millenium: 'millennium',
+  mispell: 'misspell',
+  neccessary: 'necessary',
+  necesary: 'necessary',
+  noticable: 'noticeable',
+  occassion: 'occasion',
+  occured: 'occurred',
+  occurence: 'occurrence',
+  occuring: 'occurring',
+  oppurtunity: 'opportunity',
+  paralel: 'parallel',
+  parliment: 'parliament',
+  persistant: 'persistent',
+  posession: 'possession',
+  prefered: 'preferred',
+  presense: 'presence',
+  privelege: 'privilege',
+  probaly: 'probably',
+  proffesional: 'professional',
+  publically: 'publicly',
+  questionaire: 'questionnaire',
+  realy: 'really',
+  recieve: 'receive',
+  recieved: 'received',
+  reccomend: 'recommend',
+  recomend: 'recommend',
+  refered: 'referred',
+  relevent: 'relevant',
+  remeber: 'remember',
+  repitition: 'repetition',
+  resturant: 'restaurant',
+  rythm: 'rhythm',
+  schedual: 'schedule',
+  seperate: 'separate',
+  seperately: 'separately',
+  sucess: 'success',
+  succesful: 'successful',
+  successfull: 'successful',
+  supercede: 'supersede',
+  suprise: 'surprise',
+  tommorow: 'tomorrow',
+  tommorrow: 'tomorrow',
+  tomorow: 'tomorrow',
+  tounge: 'tongue',
+  truely: 'truly',
+  untill: 'until',
+  unfortunatly: 'unfortunately',
+  usefull: 'useful',
+  wasnt: "wasn't",
+  wich: 'which',
+  wierd: 'weird',
+  writting: 'writing',
+  yesturday: 'yesterday'
+};
+
+// 重複していても正しい場合がある語（"had had", "that that" など）
+const ALLOWED_DOUBLES = new Set(['had', 'that', 'bye', 'ha', 'no', 'so', 'very', 'really']);
+
+// 母音字で始まるが子音の発音で始まる語（a を使う）
+const CONSONANT_SOUND = /^(?:uni|use|usu|uti|uk|ur[aeiou]|eu|ew|one|once|u[bcfhjklmnpqrstvwxz][aeiou])/i;
+// 子音字で始まるが母音の発音で始まる語（an を使う）
+const VOWEL_SOUND = /^(?:hour|honest|honou?r|heir)/i;
+
+const BRACKET_PAIRS: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  '“': '”',
+  '「': '」',
+  '（': '）',
+  '『': '』'
+};
+
+const CLOSING_BRACKETS = new Map(Object.entries(BRACKET_PAIRS).map(([open, close]) => [close, open]));
+
+// 保護スパンを同じ長さの無関係な文字に置き換える（オフセットを原文と揃えたままチェックするため）
+const BLANK = '\u0000';
+
+function blankProtectedSpans(text: string): string {
+  const masked = maskProtectedSpans(text);
+  let blanked = text;
+  masked.replacements.forEach(({ originalStart, originalEnd }) => {
+    blanked = blanked.slice(0, originalStart) + BLANK.repeat(originalEnd - originalStart) + blanked.slice(originalEnd);
+  });
+  return blanked;
+}
+
+function matchCase(original: string, replacement: string): string {
+  if (original.length > 1 && original === original.toUpperCase()) return replacement.toUpperCase();
+  if (original[0] === original[0].toUpperCase()) return replacement[0].toUpperCase() + replacement.slice(1);
+  return replacement;
+}
+
+function issue(
+  type: CorrectionIssue['type'],
+  start: number,
+  original: string,
+  corrected: string,
+  reason: string,
+  severity: number
+): CorrectionIssue {
+  return { type, original, corrected, reason, severity, start, end: start + original.length };
+}
+
+function checkMisspellings(text: string): CorrectionIssue[] {
+  const issues: CorrectionIssue[] = [];
+  for (const match of text.matchAll(/\b[A-Za-z]+\b/g)) {
+    const word = match[0];
+    const correct = MISSPELLINGS[word.toLowerCase()];
+    if (correct) {
+      issues.push(issue('typo', match.index!, word, matchCase(word, correct),
+        `「${word}」は「${correct}」のスペルミスです`, 0.6));
+    }
+  }
+  return issues;
+}
+
+function checkDoubledWords(text: string): CorrectionIssue[] {
+  const issues: CorrectionIssue[] = [];
+  for (const match of text.matchAll(/\b([A-Za-z]+)([ \t]+)\1\b/gi)) {
+    const word = match[1];
+    if (ALLOWED_DOUBLES.has(word.toLowerCase())) continue;
+    issues.push(issue('typo', match.index!, match[0], word,
+      `「${word}」が2回続いています`, 0.5));
+  }
+  return issues;
+}
+
+// 指摘は空白と句読点のまわりだけにする（単語の途中から始まる断片にしない）
+function checkSpacing(text: string): CorrectionIssue[] {
+  const issues: CorrectionIssue[] = [];
+
+  // 単語の間の連続したスペース（行頭のインデントは除く）
+  for (const match of text.matchAll(/(?<=[A-Za-z,.!?]) {2,}(?=[A-Za-z])/g)) {
+    issues.push(issue('style', match.index!, match[0], ' ',
+      'スペースが連続しています', 0.35));
+  }
+
+  // 句読点の前のスペース
+  for (const match of text.matchAll(/(?<=[A-Za-z]) +([,.!?;])(?=\s|$)/g)) {
+    issues.push(issue('style', match.index!, match[0], match[1],
+      '句読点の前にスペースは不要です', 0.35));
+  }
+
+  // 句読点の後のスペースの欠落（"e.g." や "index.ts" などは対象外）
+  for (const match of text.matchAll(/(?<=[a-z]{2})([,;!?]|\.(?=[A-Z][a-z]))([A-Za-z])/g)) {
+    issues.push(issue('style', match.index!, match[0], `${match[1]} ${match[2]}`,
+      '句読点の後にスペースがありません', 0.35));
+  }
+
+  return issues;
+}
+
+function expectedArticle(word: string): 'a' | 'an' | null {
+  // 略語（"an FAQ" / "a URL" など）は読み方で変わるので判定しない
+  if (/^[A-Z0-9]{2,}/.test(word) || !/^[A-Za-z]/.test(word)) return null;
+  if (VOWEL_SOUND.test(word)) return 'an';
+  if (CONSONANT_SOUND.test(word)) return 'a';
+  return /^[aeiou]/i.test(word) ? 'an' : 'a';
+}
+
+function checkArticles(text: string): CorrectionIssue[] {
+  const issues: CorrectionIssue[] = [];
+  for (const match of text.matchAll(/\b(a|an|A|An)([ \t]+)([A-Za-z][\w-]*)/g)) {
+    const [original, article, space, word] = match;
+    const expected = expectedArticle(word);
+    if (!expected || article.toLowerCase() === expected) continue;
+
+    const corrected = `${matchCase(article, expected)}${space}${word}`;
+    issues.push(issue('typo', match.index!, original, corrected,
+      `「${word}」の前は「${expected}」です`, 0.5));
+  }
+  return issues;
+}
+
+// from を含む行の最後の語（閉じる記号を補う位置）。行末の空白は含めない
+function lastWordOfLine(text: string, from: number): { start: number; end: number } {
+  const newline = text.indexOf('\n', from);
+  const end = from + text.slice(from, newline === -1 ? text.length : newline).trimEnd().length;
+  const lastSpace = text.slice(from, end).search(/\s\S*$/);
+  return { start: lastSpace === -1 ? from : from + lastSpace + 1, end };
+}
+
+// 行末の語が保護スパン（URLなど）の場合は、保護スパンを書き換えないよう修正を提案しない
+function closingIssue(text: string, scanned: string, index: number, mark: string, reason: string): CorrectionIssue | null {
+  const { start, end } = lastWordOfLine(scanned, index);
+  if (scanned.slice(start, end).includes(BLANK)) return null;
+
+  const original = text.slice(start, end);
+  return issue('typo', start, original, `${original}${mark}`, reason, 0.45);
+}
+
+function isEmoticon(before: string): boolean {
+  return /[:;=]-?$/.test(before);
+}
+
+// 閉じていない括弧・引用符には行末の語に閉じる記号を補う修正を、対応しない閉じ括弧には削除を提案する
+// （text は原文、scanned は保護スパンを BLANK に置き換えたもの）
+function checkBalance(text: string, scanned: string): CorrectionIssue[] {
+  const issues: CorrectionIssue[] = [];
+  const stack: Array<{ char: string; index: number }> = [];
+
+  for (let i = 0; i < scanned.length; i++) {
+    const char = scanned[i];
+    const before = scanned.slice(scanned.lastIndexOf('\n', i - 1) + 1, i);
+    if (BRACKET_PAIRS[char]) {
+      // 顔文字 ":(" は対象外
+      if (char === '(' && isEmoticon(before)) continue;
+      stack.push({ char, index: i });
+    } else if (CLOSING_BRACKETS.has(char)) {
+      // 顔文字 ":)" や箇条書きの "1)" "a)" は対象外
+      if (char === ')' && (isEmoticon(before) || /(?:^|\s)(?:[0-9]+|[a-z])$/i.test(before))) {
+        continue;
+      }
+      if (stack.length > 0 && stack[stack.length - 1].char === CLOSING_BRACKETS.get(char)) {
+        stack.pop();
+      } else {
+        issues.push(issue('typo', i, char, '', `対応する「${CLOSING_BRACKETS.get(char)}」がありません`, 0.4));
+      }
+    }
+  }
+
+  stack.forEach(({ char, index }) => {
+    const closing = closingIssue(text, scanned, index, BRACKET_PAIRS[char], `「${char}」が閉じられていません`);
+    if (closing) issues.push(closing);
+  });
+
+  // 引用符とバッククォートは開き・閉じが同じ記号なので、数が奇数なら最後のものを指摘する
+  (['"', '`'] as const).forEach(mark => {
+    const positions = Array.from(scanned.matchAll(new RegExp(mark, 'g')), match => match.index!);
+    if (positions.length % 2 === 0) return;
+
+    const label = mark === '`' ? 'バッククォート' : '引用符';
+    const closing = closingIssue(text, scanned, positions[positions.length - 1], mark, `${label}（${mark}）が閉じられていません`);
+    if (closing) issues.push(closing);
+  });
+
+  return issues;
+}
+
+// 重ならない指摘だけを原文に適用する
+function applyIssues(text: string, issues: CorrectionIssue[]): string {
+  let result = '';
+  let cursor = 0;
+  issues.forEach(item => {
+    result += text.slice(cursor, item.start) + item.corrected;
+    cursor = item.end!;
+  });
+  return result + text.slice(cursor);
+}
+
+// minSeverity 以下の指摘は除外する（除外した指摘は correctedText にも反映しない）
+export function checkLocally(text: string, minSeverity = 0): CorrectionResult {
+  const scanned = blankProtectedSpans(text);
+
+  const found = [
+    ...checkMisspellings(scanned),
+    ...checkDoubledWords(scanned),
+    ...checkSpacing(scanned),
+    ...checkArticles(scanned),
+    ...checkBalance(text, scanned)
+  ]
+    // 保護スパンにかかる修正は提案しない
+    .filter(item => item.severity > minSeverity && !scanned.slice(item.start!, item.end!).includes(BLANK))
+    .sort((a, b) => a.start! - b.start! || b.severity - a.severity);
+
+  // 同じ箇所に複数のルールが当たった場合は、先に見つかった（重要度の高い）ものを残す
+  const issues: CorrectionIssue[] = [];
+  found.forEach(item => {
+    const previous = issues[issues.length - 1];
+    if (previous && item.start! < previous.end!) return;
+    // チェックは空白に置き換えた文字列で行ったので、表示用に原文の文字列を使う
+    issues.push({ ...item, original: text.slice(item.start!, item.end!) });
+  });
+
+  const sorted = [...issues].sort((a, b) => b.severity - a.severity);
+  return {
+    correctedText: applyIssues(text, issues),
+    issues: sorted,
+    score: sorted.length > 0 ? sorted[0].severity : 0,
+    needsCorrection: sorted.length > 0
+  };
+}
@@ -0,0 +1,159 @@
+// 校正対象外の部分（コード・URL・メンション・絵文字など）をプレースホルダーに置き換える
+//
+// モデルがインラインコードやURLを「修正」してしまうのを防ぐため、送信前にマスクし、
+// レスポンスの correctedText と各 issue で元に戻す。
+
+import { CorrectionIssue, CorrectionResult } from './providers';
+
+export type ProtectedSpanKind = 'code' | 'stacktrace' | 'url' | 'email' | 'mention' | 'channel' | 'emoji';
+
+export interface ProtectedSpan {
+  kind: ProtectedSpanKind;
+  placeholder: string;
+  value: string;
+}
+
+export interface MaskedText {
+  text: string;
+  spans: ProtectedSpan[];
+  // 置き換えた箇所ごとのマスク前後の位置（オフセットの変換用）
+  replacements: Array<{ maskedStart: number; maskedEnd: number; originalStart: number; originalEnd: number }>;
+}
+
+// 先に書いたものが優先される（重なった場合は後のパターンを無視）
+const PROTECTED_PATTERNS: Array<{ kind: ProtectedSpanKind; pattern: RegExp }> = [
+  { kind: 'code', pattern: /```[\s\S]*?```/g },
+  { kind: 'code', pattern: /`[^`\n]+`/g },
+  { kind: 'stacktrace', pattern: /^[ \t]+at .+$/gm },
+  { kind: 'stacktrace', pattern: /^[ \t]*File ".+", line \d+.*$/gm },
+  { kind: 'url', pattern: /\bhttps?:\/\/[^\s<>"]+/g },
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { kind: 'mention', pattern: /(?<![\w@])@[\w.-]+/g },
+  { kind: 'mention', pattern: /<[@!#][^>\s]+>/g },
+  { kind: 'channel', pattern: /(?<![\w#&])#[\w-]+/g },
+  // 時刻（10:30:45）や比（2:1:3）を絵文字と誤認しないよう、英字で始まり数字の直後でないもの（と :+1: / :-1:）だけ
+  { kind: 'emoji', pattern: /(?<![0-9]):(?:[a-z][a-z0-9_+-]*|[+-]1):/g }
+];
+
+const PLACEHOLDER_PATTERN = /⟦P\d+⟧/g;
+const PLACEHOLDER_FRAGMENT = /[⟦⟧]/;
+
+export function maskProtectedSpans(text: string): MaskedText {
+  const matches: Array<{ kind: ProtectedSpanKind; start: number; end: number }> = [];
+
+  PROTECTED_PATTERNS.forEach(({ kind, pattern }) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (!matches.some(m => start < m.end && m.start < end)) {
+        matches.push({ kind, start, end });
+      }
+    }
+  });
+
+  matches.sort((a, b) => a.start - b.start);
+
+  const spans: ProtectedSpan[] = [];
+  const replacements: MaskedText['replacements'] = [];
+  let masked = '';
+  let cursor = 0;
+
+  matches.forEach(({ kind, start, end }) => {
+    const value = text.slice(start, end);
+    // 同じ値には同じプレースホルダーを割り当てる
+    let span = spans.find(s => s.value === value);
+    if (!span) {
+      span = { kind, placeholder: `⟦P${spans.length + 1}⟧`, value };
+      spans.push(span);
+    }
+    masked += text.slice(cursor, start);
+    replacements.push({
+      maskedStart: masked.length,
+      maskedEnd: masked.length + span.placeholder.length,
+      originalStart: start,
+      originalEnd: end
+    });
+    masked += span.placeholder;
+    cursor = end;
+  });
+
+  masked += text.slice(cursor);
+  return { text: masked, spans, replacements };
+}
+
+// マスク後のテキスト上のオフセットを原文上のオフセットに変換する
+export function toOriginalOffset(masked: MaskedText, offset: number): number {
+  let shift = 0;
+  for (const replacement of masked.replacements) {
+    if (offset < replacement.maskedStart) break;
+    if (offset < replacement.maskedEnd) return replacement.originalStart;
+    shift = replacement.originalEnd - replacement.maskedEnd;
+  }
+  return offset + shift;
+}
+
+function placeholdersIn(text: string): string[] {
+  return (text.match(PLACEHOLDER_PATTERN) || []).sort();
+}
+
+function restore(text: string, spans: ProtectedSpan[]): string {
+  return text.replace(PLACEHOLDER_PATTERN, placeholder =>
+    spans.find(span => span.placeholder === placeholder)?.value ?? placeholder
+  );
+}
+
+// プレースホルダーを変更・削除している issue は保護対象に触れたものとして除外する
+function touchesProtectedSpan(issue: CorrectionIssue): boolean {
+  const original = placeholdersIn(issue.original);
+  const corrected = placeholdersIn(issue.corrected);
+  const stripped = (issue.original + issue.corrected).replace(PLACEHOLDER_PATTERN, '');
+
+  return PLACEHOLDER_FRAGMENT.test(stripped) ||
+         original.length !== corrected.length ||
+         original.some((placeholder, index) => placeholder !== corrected[index]);
+}
+
+// テキスト全体を書き換える場合（翻訳など）にプレースホルダーがすべて残っているか
+export function preservesPlaceholders(text: string, masked: MaskedText): boolean {
+  const expected = placeholdersIn(masked.text);
+  const actual = placeholdersIn(text);
+  return expected.length === actual.length && expected.every((p, i) => p === actual[i]);
+}
+
+export function unmaskCorrectionResult(result: CorrectionResult, masked: MaskedText): CorrectionResult {
+  if (masked.spans.length === 0) {
+    return result;
+  }
+
+  const keptIssues = result.issues.filter(issue => !touchesProtectedSpan(issue));
+  if (keptIssues.length < result.issues.length) {
+    console.log(`Dropped ${result.issues.length - keptIssues.length} issue(s) touching protected spans`);
+  }
+
+  // correctedText でプレースホルダーが壊れている場合は、残った issue を原文に適用して作り直す
+  let correctedText = result.correctedText;
+  const expected = placeholdersIn(masked.text);
+  const actual = placeholdersIn(correctedText);
+  if (expected.length !== actual.length || expected.some((p, i) => p !== actual[i])) {
+    // 置換関数を渡して、モデルの出力に含まれる $& などを置換パターンとして解釈させない
+    correctedText = keptIssues.reduce(
+      (text, issue) => issue.original ? text.replace(issue.original, () => issue.corrected) : text,
+      masked.text
+    );
+  }
+
+  const issues = keptIssues.map(issue => ({
+    ...issue,
+    original: restore(issue.original, masked.spans),
+    corrected: restore(issue.corrected, masked.spans),
+    start: typeof issue.start === 'number' ? toOriginalOffset(masked, issue.start) : issue.start,
+    end: typeof issue.end === 'number' ? toOriginalOffset(masked, issue.end) : issue.end
+  }));
+
+  return {
+    ...result,
+    correctedText: restore(correctedText, masked.spans),
+    issues,
+    needsCorrection: result.needsCorrection && issues.length > 0
+  };
+}
@@ -1,12 +1,129 @@
 // Options page script
+import { HistoryStore } from './historyStore';
+import { ReviewStore, buildReviewDeck, groupRecurringMistakes } from './learning';
+import { mergeGlossaries, parseGlossaryCsv, parseGlossaryJson, sanitizeGlossary } from './glossary';
+import { KeyVault, MIN_PASSPHRASE_LENGTH } from './keyVault';
+import { DEFAULT_TARGET_LANGUAGE, TONE_TARGETS, parseSlackUrl, resolvePolicy } from './policies';
+import { sendRuntimeMessage } from './protocol';
+import { PROVIDERS } from './providers';
+import { getManagedKeys, loadSettings, saveSettings as saveSyncedSettings } from './settings';
+import { SETTING_LABELS, diffSettings, exportSettings, parseSettingsFile } from './settingsTransfer';
+import { BUDGET_ACTION_LABELS, UsageStore, checkBudget, formatUsd, sanitizeModelPrices } from './usage';
+
 document.addEventListener('DOMContentLoaded', function() {
+  const providerSelect = document.getElementById('provider');
+  const baseUrlInput = document.getElementById('baseUrl');
+  const apiKeySection = document.getElementById('apiKeySection');
   const apiKeyInput = document.getElementById('apiKey');
+  const vaultEnabledInput = document.getElementById('vaultEnabled');
+  const vaultFields = document.getElementById('vaultFields');
+  const vaultPassphraseInput = document.getElementById('vaultPassphrase');
+  const vaultPassphraseHint = document.getElementById('vaultPassphraseHint');
+  const vaultConfirmSection = document.getElementById('vaultConfirmSection');
+  const vaultPassphraseConfirmInput = document.getElementById('vaultPassphraseConfirm');
+  const vaultAutoLockInput = document.getElementById('vaultAutoLockMinutes');
+  const vaultStatus = document.getElementById('vaultStatus');
+  const lockVaultButton = document.getElementById('lockVault');
+  const modelInput = document.getElementById('model');
+  const maxTokensInput = document.getElementById('maxTokens');
+  const requestTimeoutInput = document.getElementById('requestTimeoutSeconds');
+  const correctionThresholdInput = document.getElementById('correctionThreshold');
+  const severityThresholdInput = document.getElementById('severityThreshold');
+  const failureModeSelect = document.getElementById('failureMode');
+  const inlineLintInput = document.getElementById('inlineLintEnabled');
+  const sendKeySelect = document.getElementById('sendKey');
+  const conversationContextInput = document.getElementById('conversationContextEnabled');
+  const contextMessagesInput = document.getElementById('conversationContextMessages');
+  const contextTokenBudgetInput = document.getElementById('conversationContextTokenBudget');
   const saveButton = document.getElementById('save');
   const testButton = document.getElementById('test');
   const status = document.getElementById('status');
+  const policyList = document.getElementById('policyList');
+  const addPolicyButton = document.getElementById('addPolicy');
+  const previewUrlInput = document.getElementById('previewUrl');
+  const previewChannelNameInput = document.getElementById('previewChannelName');
+  const previewIsDMInput = document.getElementById('previewIsDM');
+  const previewResult = document.getElementById('previewResult');
+  const glossaryDoNotTouchInput = document.getElementById('glossaryDoNotTouch');
+  const glossaryPreferredInput = document.getElementById('glossaryPreferred');
+  const glossaryForbiddenInput = document.getElementById('glossaryForbidden');
+  const glossaryFileInput = document.getElementById('glossaryFile');
+  const importGlossaryButton = document.getElementById('importGlossary');
+  const reviewCard = document.getElementById('reviewCard');
+  const recurringList = document.getElementById('recurringList');
+  const dailyBudgetInput = document.getElementById('dailyBudget');
+  const monthlyBudgetInput = document.getElementById('monthlyBudget');
+  const budgetActionSelect = document.getElementById('budgetAction');
+  const budgetLongMessageInput = document.getElementById('budgetLongMessageLength');
+  const modelPricesInput = document.getElementById('modelPrices');
+  const usageSummary = document.getElementById('usageSummary');
+  const resetUsageButton = document.getElementById('resetUsage');
+  const managedNote = document.getElementById('managedNote');
+  const settingsFileInput = document.getElementById('settingsFile');
+  const exportSettingsButton = document.getElementById('exportSettings');
+  const importSettingsButton = document.getElementById('importSettings');
+  const importPreview = document.getElementById('importPreview');
+  const importPreviewContent = document.getElementById('importPreviewContent');
+  const applyImportButton = document.getElementById('applyImport');
+  const cancelImportButton = document.getElementById('cancelImport');
+  const reviewStore = new ReviewStore();
+  const usageStore = new UsageStore();
+  const vault = new KeyVault();
+
+  const TONE_LABELS = {
+    none: '指定なし',
+    formal: 'フォーマル',
+    casual: 'カジュアル',
+    concise: '簡潔',
+    friendly: 'フレンドリー'
+  };
+
+  const FAILURE_MODE_LABELS = {
+    send: 'そのまま送信',
+    warn: '通知して送信',
+    block: '送信を止める'
+  };
+
+  // 管理者が指定している項目と、オプションページで対応する入力欄
+  const SETTING_INPUTS = {
+    providerId: [providerSelect],
+    providerBaseUrl: [baseUrlInput],
+    model: [modelInput],
+    maxTokens: [maxTokensInput],
+    requestTimeoutSeconds: [requestTimeoutInput],
+    correctionThreshold: [correctionThresholdInput],
+    severityThreshold: [severityThresholdInput],
+    failureMode: [failureModeSelect],
+    inlineLintEnabled: [inlineLintInput],
+    sendKey: [sendKeySelect],
+    conversationContextEnabled: [conversationContextInput],
+    conversationContextMessages: [contextMessagesInput],
+    conversationContextTokenBudget: [contextTokenBudgetInput],
+    dailyBudget: [dailyBudgetInput],
+    monthlyBudget: [monthlyBudgetInput],
+    budgetAction: [budgetActionSelect],
+    budgetLongMessageLength: [budgetLongMessageInput],
+    modelPrices: [modelPricesInput],
+    vaultAutoLockMinutes: [vaultAutoLockInput],
+    policies: [addPolicyButton],
+    glossary: [glossaryDoNotTouchInput, glossaryPreferredInput, glossaryForbiddenInput, importGlossaryButton]
+  };
 
-  // 保存されたAPIキーを読み込み
+  let managedKeys = new Set();
+  // 確認中の読み込み内容
+  let pendingImport = null;
+  let savedApiKeys = {};
+  // パスフレーズで保護されているか、保護されているキー（入力欄には表示しない）
+  let vaultEnabled = false;
+  let protectedKeys = new Set();
+  let policies = [];
+  let reviewDeck = [];
+  let reviewIndex = 0;
+
+  // 保存された設定を読み込み
   loadSavedSettings();
+  loadReviewDeck();
+  loadUsageSummary();
 
   // 保存ボタンのイベント
   saveButton.addEventListener('click', saveSettings);
@@ -14,6 +131,38 @@ document.addEventListener('DOMContentLoaded', function() {
   // テストボタンのイベント
   testButton.addEventListener('click', testConnection);
 
+  // プロバイダー切り替え
+  providerSelect.addEventListener('change', updateProviderFields);
+
+  // APIキーの保護
+  vaultEnabledInput.addEventListener('change', updateVaultFields);
+  lockVaultButton.addEventListener('click', lockVault);
+
+  // ルールの追加・編集
+  addPolicyButton.addEventListener('click', addPolicy);
+  policyList.addEventListener('input', handlePolicyInput);
+  policyList.addEventListener('change', handlePolicyInput);
+  policyList.addEventListener('click', handlePolicyAction);
+
+  // プレビュー
+  [previewUrlInput, previewChannelNameInput, previewIsDMInput, correctionThresholdInput, failureModeSelect].forEach(input => {
+    input.addEventListener('input', updatePolicyPreview);
+  });
+
+  // 利用量のリセット
+  resetUsageButton.addEventListener('click', resetUsage);
+
+  // 設定の書き出し・読み込み
+  exportSettingsButton.addEventListener('click', exportSettingsFile);
+  importSettingsButton.addEventListener('click', () => settingsFileInput.click());
+  settingsFileInput.addEventListener('change', previewSettingsImport);
+  applyImportButton.addEventListener('click', applySettingsImport);
+  cancelImportButton.addEventListener('click', closeImportPreview);
+
+  // 用語集の読み込み
+  importGlossaryButton.addEventListener('click', () => glossaryFileInput.click());
+  glossaryFileInput.addEventListener('change', importGlossary);
+
   // Enterキーで保存
   apiKeyInput.addEventListener('keypress', function(e) {
     if (e.key === 'Enter') {
@@ -23,32 +172,730 @@ document.addEventListener('DOMContentLoaded', function() {
 
   async function loadSavedSettings() {
     try {
-      const result = await chrome.storage.local.get(['claudeApiKey']);
-      if (result.claudeApiKey) {
-        apiKeyInput.value = result.claudeApiKey;
+      const settings = await loadSettings();
+      // APIキーは同期せず local に保存
+      const result = await chrome.storage.local.get(['claudeApiKey', 'openaiApiKey']);
+      savedApiKeys = {
+        claudeApiKey: result.claudeApiKey || '',
+        openaiApiKey: result.openaiApiKey || ''
+      };
+      await loadVaultState();
+      vaultEnabledInput.checked = vaultEnabled;
+      vaultAutoLockInput.value = settings.vaultAutoLockMinutes;
+      providerSelect.value = settings.providerId;
+      baseUrlInput.value = settings.providerBaseUrl;
+      modelInput.value = settings.model;
+      maxTokensInput.value = settings.maxTokens;
+      requestTimeoutInput.value = settings.requestTimeoutSeconds;
+      correctionThresholdInput.value = Math.round(settings.correctionThreshold * 100);
+      severityThresholdInput.value = Math.round(settings.severityThreshold * 100);
+      failureModeSelect.value = settings.failureMode;
+      inlineLintInput.checked = settings.inlineLintEnabled;
+      sendKeySelect.value = settings.sendKey;
+      conversationContextInput.checked = settings.conversationContextEnabled;
+      contextMessagesInput.value = settings.conversationContextMessages;
+      contextTokenBudgetInput.value = settings.conversationContextTokenBudget;
+      dailyBudgetInput.value = settings.dailyBudget;
+      monthlyBudgetInput.value = settings.monthlyBudget;
+      budgetActionSelect.value = settings.budgetAction;
+      budgetLongMessageInput.value = settings.budgetLongMessageLength;
+      modelPricesInput.value = settings.modelPrices
+        .map(price => `${price.model}: ${price.inputPerMillion}, ${price.outputPerMillion}`)
+        .join('\n');
+      policies = settings.policies;
+      renderGlossary(settings.glossary);
+      updateProviderFields();
+      updateVaultFields();
+      applyManagedLocks(await getManagedKeys());
+      renderPolicies();
+    } catch (error) {
+      console.error('設定の読み込みエラー:', error);
+    }
+  }
+
+  function updateProviderFields() {
+    const definition = PROVIDERS[providerSelect.value];
+    baseUrlInput.placeholder = definition.defaultBaseUrl;
+    modelInput.placeholder = definition.defaultModel;
+
+    if (definition.apiKeyStorageKey) {
+      apiKeySection.style.display = 'block';
+      if (protectedKeys.has(definition.apiKeyStorageKey)) {
+        // 保護したキーは表示しない（変更する場合だけ入力してもらう）
+        apiKeyInput.placeholder = '保存済み（パスフレーズで保護されています。変更する場合のみ入力）';
+        apiKeyInput.value = '';
+      } else {
+        apiKeyInput.placeholder = definition.apiKeyPlaceholder;
+        apiKeyInput.value = savedApiKeys[definition.apiKeyStorageKey] || '';
+      }
+    } else {
+      apiKeySection.style.display = 'none';
+      apiKeyInput.value = '';
+    }
+  }
+
+  // 管理者が指定している項目は変更できないようにする
+  function applyManagedLocks(keys) {
+    managedKeys = new Set(keys);
+    managedNote.style.display = managedKeys.size > 0 ? 'block' : 'none';
+
+    managedKeys.forEach(key => {
+      const inputs = SETTING_INPUTS[key] || [];
+      inputs.forEach(input => {
+        input.disabled = true;
+        input.title = '管理者が設定しています';
+      });
+
+      // チェックボックスはラベルの後ろに表示する
+      const last = inputs[inputs.length - 1];
+      const anchor = last && (last.closest('label') || last);
+      if (anchor && !anchor.nextElementSibling?.classList.contains('managed-hint')) {
+        anchor.insertAdjacentHTML('afterend', '<p class="hint managed-hint">🔒 管理者が設定しているため変更できません</p>');
       }
+    });
+
+    renderPolicies();
+  }
+
+  async function exportSettingsFile() {
+    const settings = await loadSettings();
+    const content = JSON.stringify(exportSettings(settings), null, 2);
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `slack-correction-settings-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function formatSettingValue(value) {
+    const json = JSON.stringify(value);
+    if (json === undefined) return '（なし）';
+    return json.length > 120 ? `${json.slice(0, 119)}…` : json;
+  }
+
+  // 読み込むと変わる項目を表示して確認してもらう
+  async function previewSettingsImport() {
+    const file = settingsFileInput.files[0];
+    if (!file) return;
+
+    try {
+      const imported = parseSettingsFile(await file.text());
+      const changes = diffSettings(await loadSettings(), imported.settings);
+      const applicable = changes.filter(change => !managedKeys.has(change.key));
+
+      importPreviewContent.innerHTML = `
+        ${imported.warnings.map(warning => `<p class="warning">⚠️ ${escapeHtml(warning)}</p>`).join('')}
+        ${changes.length === 0 ? '<p>現在の設定と同じです（変更はありません）</p>' : `
+          <p>${applicable.length}項目が変更されます:</p>
+          <ul>
+            ${changes.map(change => `
+              <li class="${managedKeys.has(change.key) ? 'skipped' : ''}">
+                <strong>${escapeHtml(SETTING_LABELS[change.key])}</strong>
+                ${managedKeys.has(change.key) ? '（管理者が設定しているため読み込みません）' : ''}<br>
+                <span class="change-value">${escapeHtml(formatSettingValue(change.before))}</span> →
+                <span class="change-value">${escapeHtml(formatSettingValue(change.after))}</span>
+              </li>
+            `).join('')}
+          </ul>
+        `}
+      `;
+      pendingImport = Object.fromEntries(applicable.map(change => [change.key, change.after]));
+      applyImportButton.disabled = applicable.length === 0;
+      importPreview.style.display = 'block';
+    } catch (error) {
+      console.error('設定ファイルの読み込みエラー:', error);
+      showStatus(`設定ファイルを読み込めませんでした: ${error.message}`, 'error');
+    } finally {
+      settingsFileInput.value = '';
+    }
+  }
+
+  async function applySettingsImport() {
+    if (!pendingImport) return;
+
+    try {
+      applyImportButton.disabled = true;
+      await saveSyncedSettings(pendingImport);
+      closeImportPreview();
+      await loadSavedSettings();
+      loadUsageSummary();
+      showStatus('設定を読み込みました', 'success');
     } catch (error) {
       console.error('設定の読み込みエラー:', error);
+      showStatus(`設定を保存できませんでした: ${error.message}`, 'error');
+      applyImportButton.disabled = false;
+    }
+  }
+
+  function closeImportPreview() {
+    pendingImport = null;
+    importPreview.style.display = 'none';
+    importPreviewContent.innerHTML = '';
+  }
+
+  async function loadVaultState() {
+    vaultEnabled = await vault.isEnabled();
+    protectedKeys = new Set();
+    for (const definition of Object.values(PROVIDERS)) {
+      if (definition.apiKeyStorageKey && await vault.hasKey(definition.apiKeyStorageKey)) {
+        protectedKeys.add(definition.apiKeyStorageKey);
+      }
+    }
+  }
+
+  async function updateVaultFields() {
+    const enabling = vaultEnabledInput.checked && !vaultEnabled;
+    vaultFields.style.display = vaultEnabledInput.checked || vaultEnabled ? 'block' : 'none';
+    vaultConfirmSection.style.display = enabling ? 'block' : 'none';
+    lockVaultButton.style.display = vaultEnabled ? 'inline-block' : 'none';
+
+    if (enabling) {
+      vaultPassphraseHint.textContent = `${MIN_PASSPHRASE_LENGTH}文字以上。保存済みのAPIキーもまとめて暗号化します。`;
+    } else if (!vaultEnabledInput.checked) {
+      vaultPassphraseHint.textContent = '保護をやめる場合は、現在のパスフレーズを入力して保存してください。';
+    } else {
+      vaultPassphraseHint.textContent = 'APIキーを変更する場合は、現在のパスフレーズを入力してください。';
+    }
+
+    vaultStatus.textContent = vaultEnabled
+      ? (await vault.isUnlocked() ? '🔓 ロック解除中' : '🔒 ロック中')
+      : '';
+  }
+
+  async function lockVault() {
+    await vault.lock();
+    await updateVaultFields();
+    showStatus('APIキーをロックしました', 'success');
+  }
+
+  // 保護の設定に従ってAPIキーを保存する（パスフレーズが違う場合はエラー）
+  async function saveApiKey(storageKey, apiKey, passphrase, autoLockMinutes) {
+    const updates = storageKey && apiKey ? { [storageKey]: apiKey } : {};
+
+    if (vaultEnabledInput.checked && !vaultEnabled) {
+      // 平文で保存済みの他のプロバイダーのキーもまとめて暗号化する
+      const plaintext = Object.fromEntries(Object.entries(savedApiKeys).filter(([, value]) => value));
+      await vault.enable(passphrase, { ...plaintext, ...updates }, autoLockMinutes);
+      savedApiKeys = {};
+    } else if (vaultEnabledInput.checked) {
+      if (apiKey) await vault.store(passphrase, updates, autoLockMinutes);
+    } else {
+      if (vaultEnabled) {
+        savedApiKeys = { ...savedApiKeys, ...await vault.disable(passphrase) };
+      }
+      if (apiKey) {
+        await chrome.storage.local.set(updates);
+        savedApiKeys = { ...savedApiKeys, ...updates };
+      }
+    }
+
+    await loadVaultState();
+    vaultPassphraseInput.value = '';
+    vaultPassphraseConfirmInput.value = '';
+    updateProviderFields();
+    await updateVaultFields();
+  }
+
+  function escapeHtml(value) {
+    const div = document.createElement('div');
+    div.textContent = value;
+    return div.innerHTML;
+  }
+
+  function renderOptions(values, labels, selected) {
+    return values.map(value =>
+      `<option value="${value}" ${value === selected ? 'selected' : ''}>${labels[value]}</option>`
+    ).join('');
+  }
+
+  function renderPolicies() {
+    if (policies.length === 0) {
+      policyList.innerHTML = '<p class="hint">ルールはありません（すべての会話で上記の設定を使います）</p>';
+      updatePolicyPreview();
+      return;
+    }
+
+    policyList.innerHTML = policies.map((rule, index) => `
+      <div class="policy-rule" data-index="${index}">
+        <div class="policy-rule-grid">
+          <div>
+            <label>名前</label>
+            <input type="text" data-field="name" value="${escapeHtml(rule.name)}" placeholder="ルール${index + 1}" />
+          </div>
+          <div>
+            <label>会話の種類</label>
+            <select data-field="conversationType">
+              ${renderOptions(['any', 'channel', 'dm'], { any: 'すべて', channel: 'チャンネル', dm: 'DM' }, rule.conversationType)}
+            </select>
+          </div>
+          <div>
+            <label>ワークスペース</label>
+            <input type="text" data-field="workspace" value="${escapeHtml(rule.workspace)}" placeholder="すべて（例: myteam, T0123ABCD）" />
+          </div>
+          <div>
+            <label>チャンネル</label>
+            <input type="text" data-field="channel" value="${escapeHtml(rule.channel)}" placeholder="すべて（例: #general, C0456EFGH）" />
+          </div>
+          <div>
+            <label>校正しきい値 (%)</label>
+            <input type="number" data-field="correctionThreshold" min="0" max="100" step="5"
+              value="${rule.correctionThreshold === undefined ? '' : Math.round(rule.correctionThreshold * 100)}" placeholder="既定" />
+          </div>
+          <div>
+            <label>トーン</label>
+            <select data-field="toneTarget">
+              <option value="">既定（指定なし）</option>
+              ${renderOptions(TONE_TARGETS.filter(tone => tone !== 'none'), TONE_LABELS, rule.toneTarget)}
+            </select>
+          </div>
+          <div>
+            <label>失敗したとき</label>
+            <select data-field="failureMode">
+              <option value="">既定</option>
+              ${renderOptions(['send', 'warn', 'block'], FAILURE_MODE_LABELS, rule.failureMode)}
+            </select>
+          </div>
+          <div>
+            <label>翻訳先の言語</label>
+            <input type="text" data-field="targetLanguage" value="${escapeHtml(rule.targetLanguage || '')}" placeholder="${DEFAULT_TARGET_LANGUAGE}" />
+          </div>
+        </div>
+        <div class="policy-rule-actions">
+          <label><input type="checkbox" data-field="enabled" ${rule.enabled ? 'checked' : ''} /> 校正する</label>
+          <button type="button" data-action="up" ${index === 0 ? 'disabled' : ''}>↑</button>
+          <button type="button" data-action="down" ${index === policies.length - 1 ? 'disabled' : ''}>↓</button>
+          <button type="button" class="delete-rule" data-action="delete">削除</button>
+        </div>
+      </div>
+    `).join('');
+
+    if (managedKeys.has('policies')) {
+      policyList.querySelectorAll('input, select, button').forEach(input => {
+        input.disabled = true;
+      });
+    }
+
+    updatePolicyPreview();
+  }
+
+  function addPolicy() {
+    policies.push({
+      id: crypto.randomUUID(),
+      name: '',
+      workspace: '',
+      channel: '',
+      conversationType: 'any',
+      enabled: true
+    });
+    renderPolicies();
+  }
+
+  function handlePolicyInput(e) {
+    const field = e.target.dataset.field;
+    const ruleElement = e.target.closest('.policy-rule');
+    if (!field || !ruleElement) return;
+
+    const rule = policies[Number(ruleElement.dataset.index)];
+    if (field === 'enabled') {
+      rule.enabled = e.target.checked;
+    } else if (field === 'correctionThreshold') {
+      // 空欄は「既定を使う」
+      rule.correctionThreshold = e.target.value === '' ? undefined : readPercent(e.target);
+    } else if (field === 'toneTarget' || field === 'failureMode' || field === 'targetLanguage') {
+      rule[field] = e.target.value.trim() || undefined;
+    } else {
+      rule[field] = e.target.value;
+    }
+    updatePolicyPreview();
+  }
+
+  function handlePolicyAction(e) {
+    const action = e.target.dataset.action;
+    const ruleElement = e.target.closest('.policy-rule');
+    if (!action || !ruleElement) return;
+
+    const index = Number(ruleElement.dataset.index);
+    if (action === 'delete') {
+      policies.splice(index, 1);
+    } else {
+      const target = action === 'up' ? index - 1 : index + 1;
+      [policies[index], policies[target]] = [policies[target], policies[index]];
+    }
+    renderPolicies();
+  }
+
+  // 入力したURLでどのルールが使われるかを表示する
+  function updatePolicyPreview() {
+    const url = previewUrlInput.value.trim();
+    if (!url) {
+      previewResult.textContent = 'SlackのURLを入力すると、適用されるルールを確認できます';
+      return;
+    }
+
+    let parsed;
+    try {
+      parsed = parseSlackUrl(url);
+    } catch (error) {
+      previewResult.textContent = 'URLの形式が正しくありません';
+      return;
+    }
+
+    const context = {
+      ...parsed,
+      channelName: previewChannelNameInput.value.trim() || null,
+      isDM: parsed.isDM || previewIsDMInput.checked
+    };
+    const policy = resolvePolicy({
+      correctionThreshold: readPercent(correctionThresholdInput),
+      failureMode: failureModeSelect.value,
+      policies
+    }, context);
+
+    const ruleLabel = policy.ruleId
+      ? `「${policy.ruleName || `ルール${policies.findIndex(rule => rule.id === policy.ruleId) + 1}`}」`
+      : 'なし（既定の設定）';
+    previewResult.textContent = policy.enabled
+      ? `適用ルール: ${ruleLabel} / しきい値 ${Math.round(policy.correctionThreshold * 100)}% / トーン: ${TONE_LABELS[policy.toneTarget]} / 失敗時: ${FAILURE_MODE_LABELS[policy.failureMode]} / 翻訳先: ${policy.targetLanguage}`
+      : `適用ルール: ${ruleLabel} / 校正しない`;
+  }
+
+  function splitLines(value) {
+    return value.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  // 「語: 別表記, 別表記」を語と別表記に分ける。
+  // : や , を含む語は "..." で囲む（" 自体は "" と書く）
+  function splitEntry(line) {
+    let term = null;
+    const alternatives = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted && char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (!quoted && term === null && /[:：]/.test(char)) {
+        term = field.trim();
+        field = '';
+      } else if (!quoted && term !== null && /[,、]/.test(char)) {
+        alternatives.push(field.trim());
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (term === null) return { term: field.trim(), alternatives: [] };
+    alternatives.push(field.trim());
+    return { term, alternatives: alternatives.filter(Boolean) };
+  }
+
+  // splitEntry で区切り文字として扱われる文字を含む語を "..." で囲む
+  function quoteEntry(value) {
+    return /[:：,、"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  function renderGlossary(glossary) {
+    glossaryDoNotTouchInput.value = glossary.doNotTouch.join('\n');
+    glossaryPreferredInput.value = glossary.preferred
+      .map(({ term, variants }) => variants.length > 0
+        ? `${quoteEntry(term)}: ${variants.map(quoteEntry).join(', ')}`
+        : quoteEntry(term))
+      .join('\n');
+    glossaryForbiddenInput.value = glossary.forbidden
+      .map(({ term, replacement }) => replacement ? `${quoteEntry(term)}: ${quoteEntry(replacement)}` : quoteEntry(term))
+      .join('\n');
+  }
+
+  function readGlossary() {
+    return sanitizeGlossary({
+      doNotTouch: splitLines(glossaryDoNotTouchInput.value),
+      preferred: splitLines(glossaryPreferredInput.value).map(line => {
+        const { term, alternatives } = splitEntry(line);
+        return { term, variants: alternatives };
+      }),
+      forbidden: splitLines(glossaryForbiddenInput.value).map(line => {
+        const { term, alternatives } = splitEntry(line);
+        return { term, replacement: alternatives[0] || null };
+      })
+    });
+  }
+
+  async function importGlossary() {
+    const file = glossaryFileInput.files[0];
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      const imported = file.name.toLowerCase().endsWith('.json')
+        ? parseGlossaryJson(content)
+        : parseGlossaryCsv(content);
+      renderGlossary(mergeGlossaries(readGlossary(), imported));
+
+      const count = imported.preferred.length + imported.forbidden.length + imported.doNotTouch.length;
+      showStatus(`${count}件の用語を読み込みました（保存すると反映されます）`, 'success');
+    } catch (error) {
+      console.error('用語集の読み込みエラー:', error);
+      showStatus(`用語集を読み込めませんでした: ${error.message}`, 'error');
+    } finally {
+      glossaryFileInput.value = '';
+    }
+  }
+
+  // 「モデル名: 入力, 出力」の行を単価表にする（数値でない行は null）
+  function readModelPrices() {
+    const prices = splitLines(modelPricesInput.value).map(line => {
+      const { term, alternatives } = splitEntry(line);
+      return { model: term, inputPerMillion: Number(alternatives[0]), outputPerMillion: Number(alternatives[1]) };
+    });
+    const valid = sanitizeModelPrices(prices);
+    return valid.length === prices.length ? valid : null;
+  }
+
+  async function loadUsageSummary() {
+    try {
+      const [settings, summary] = await Promise.all([loadSettings(), usageStore.summarize()]);
+      const status = checkBudget(summary, settings);
+      const row = (label, totals, budget) => `
+        <tr>
+          <td>${escapeHtml(label)}</td>
+          <td>${totals.requests}</td>
+          <td>${totals.inputTokens.toLocaleString()}</td>
+          <td>${totals.outputTokens.toLocaleString()}</td>
+          <td>${formatUsd(totals.cost)}${budget > 0 ? ` / ${formatUsd(budget)}` : ''}</td>
+        </tr>
+      `;
+
+      usageSummary.innerHTML = `
+        ${status.exceeded ? `<p class="budget-warning">${status.exceeded === 'daily' ? '今日' : '今月'}の上限に達しています（${BUDGET_ACTION_LABELS[status.action]}）</p>` : ''}
+        <table>
+          <tr><th></th><th>回数</th><th>入力</th><th>出力</th><th>推定コスト</th></tr>
+          ${row('今日', summary.today, settings.dailyBudget)}
+          ${row('今月', summary.month, settings.monthlyBudget)}
+          ${summary.byModel.map(model => row(`　${model.model}`, model, 0)).join('')}
+        </table>
+        ${summary.month.unpricedRequests > 0
+          ? `<p class="hint">単価が未設定のモデルへの${summary.month.unpricedRequests}回のリクエストはコストに含まれていません</p>`
+          : ''}
+      `;
+    } catch (error) {
+      console.error('利用量の読み込みエラー:', error);
+      usageSummary.textContent = '利用量を読み込めませんでした';
+    }
+  }
+
+  async function resetUsage() {
+    if (!confirm('記録したAPI利用量をすべて削除しますか？')) return;
+    await usageStore.clear();
+    await loadUsageSummary();
+    showStatus('利用量をリセットしました', 'success');
+  }
+
+  async function loadReviewDeck() {
+    try {
+      const patterns = groupRecurringMistakes(await new HistoryStore().list());
+      reviewDeck = buildReviewDeck(patterns, await reviewStore.load());
+      reviewIndex = 0;
+
+      recurringList.innerHTML = patterns.slice(0, 5).map(pattern => `
+        <li>"${escapeHtml(pattern.original)}" → "${escapeHtml(pattern.corrected)}"（${pattern.count}回）</li>
+      `).join('');
+      renderReviewCard(false);
+    } catch (error) {
+      console.error('復習データの読み込みエラー:', error);
+      reviewCard.textContent = '校正履歴を読み込めませんでした';
     }
   }
 
+  function renderReviewCard(showAnswer) {
+    const pattern = reviewDeck[reviewIndex];
+    if (!pattern) {
+      reviewCard.innerHTML = reviewDeck.length > 0
+        ? '<p>🎉 今日の復習は終わりました</p>'
+        : '<p class="hint">今復習する間違いはありません</p>';
+      return;
+    }
+
+    reviewCard.innerHTML = `
+      <div class="review-meta">${reviewIndex + 1} / ${reviewDeck.length} ・ ${pattern.count}回指摘 ・ 重要度 ${Math.round(pattern.averageSeverity * 100)}%</div>
+      <div class="review-original">${escapeHtml(pattern.original)}</div>
+      ${showAnswer ? `
+        <div class="review-answer">→ ${escapeHtml(pattern.corrected)}</div>
+        ${pattern.reason ? `<div class="review-reason">${escapeHtml(pattern.reason)}</div>` : ''}
+        <div class="review-actions">
+          <button type="button" data-review="remembered">覚えていた</button>
+          <button type="button" class="forgot" data-review="forgot">もう一度</button>
+        </div>
+      ` : `
+        <div class="review-actions">
+          <button type="button" data-review="show">正しい表現を見る</button>
+        </div>
+      `}
+    `;
+  }
+
+  reviewCard.addEventListener('click', async e => {
+    const action = e.target.dataset.review;
+    if (!action) return;
+
+    if (action === 'show') {
+      renderReviewCard(true);
+      return;
+    }
+
+    await reviewStore.grade(reviewDeck[reviewIndex].key, action === 'remembered');
+    reviewIndex++;
+    renderReviewCard(false);
+  });
+
+  function readPercent(input) {
+    const value = Number(input.value);
+    return Number.isNaN(value) ? NaN : value / 100;
+  }
+
   async function saveSettings() {
+    const providerId = providerSelect.value;
+    const definition = PROVIDERS[providerId];
+    const baseUrl = baseUrlInput.value.trim();
     const apiKey = apiKeyInput.value.trim();
+    const correctionThreshold = readPercent(correctionThresholdInput);
+    const severityThreshold = readPercent(severityThresholdInput);
+    const maxTokens = Number(maxTokensInput.value);
+    const requestTimeoutSeconds = Number(requestTimeoutInput.value);
+    const contextMessages = Number(contextMessagesInput.value);
+    const contextTokenBudget = Number(contextTokenBudgetInput.value);
+    const dailyBudget = Number(dailyBudgetInput.value);
+    const monthlyBudget = Number(monthlyBudgetInput.value);
+    const budgetLongMessageLength = Number(budgetLongMessageInput.value);
+    const modelPrices = readModelPrices();
+    const passphrase = vaultPassphraseInput.value;
+    const vaultAutoLockMinutes = Number(vaultAutoLockInput.value);
     
-    if (!apiKey) {
+    if (definition.apiKeyStorageKey && !apiKey && !protectedKeys.has(definition.apiKeyStorageKey)) {
       showStatus('APIキーを入力してください', 'error');
       return;
     }
 
-    if (!apiKey.startsWith('sk-ant-')) {
+    if (providerId === 'anthropic' && apiKey && !apiKey.startsWith('sk-ant-')) {
       showStatus('正しいClaude APIキー形式ではありません', 'error');
       return;
     }
 
+    if (baseUrl && !/^https?:\/\//.test(baseUrl)) {
+      showStatus('ベースURLは http:// または https:// で始めてください', 'error');
+      return;
+    }
+
+    if ([correctionThreshold, severityThreshold].some(value => Number.isNaN(value) || value < 0 || value > 1)) {
+      showStatus('しきい値は0〜100の範囲で入力してください', 'error');
+      return;
+    }
+
+    if (policies.some(rule => rule.correctionThreshold !== undefined &&
+        (Number.isNaN(rule.correctionThreshold) || rule.correctionThreshold < 0 || rule.correctionThreshold > 1))) {
+      showStatus('ルールのしきい値は0〜100の範囲で入力してください', 'error');
+      return;
+    }
+
+    if (!Number.isInteger(maxTokens) || maxTokens < 256 || maxTokens > 8192) {
+      showStatus('最大トークン数は256〜8192の整数で入力してください', 'error');
+      return;
+    }
+
+    if (!Number.isInteger(requestTimeoutSeconds) || requestTimeoutSeconds < 3 || requestTimeoutSeconds > 120) {
+      showStatus('タイムアウトは3〜120秒の整数で入力してください', 'error');
+      return;
+    }
+
+    if (!Number.isInteger(contextMessages) || contextMessages < 0 || contextMessages > 20) {
+      showStatus('文脈に含めるメッセージ数は0〜20の整数で入力してください', 'error');
+      return;
+    }
+
+    if (!Number.isInteger(contextTokenBudget) || contextTokenBudget < 100 || contextTokenBudget > 2000) {
+      showStatus('文脈のトークン数の上限は100〜2000の整数で入力してください', 'error');
+      return;
+    }
+
+    if ([dailyBudget, monthlyBudget].some(value => Number.isNaN(value) || value < 0)) {
+      showStatus('予算の上限は0以上の数値で入力してください（0は上限なし）', 'error');
+      return;
+    }
+
+    if (!Number.isInteger(budgetLongMessageLength) || budgetLongMessageLength < 20 || budgetLongMessageLength > 5000) {
+      showStatus('長いメッセージの文字数は20〜5000の整数で入力してください', 'error');
+      return;
+    }
+
+    if (vaultEnabledInput.checked && !vaultEnabled) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        showStatus(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上で入力してください`, 'error');
+        return;
+      }
+      if (passphrase !== vaultPassphraseConfirmInput.value) {
+        showStatus('パスフレーズ（確認）が一致しません', 'error');
+        return;
+      }
+    } else if (vaultEnabled && (apiKey || !vaultEnabledInput.checked) && !passphrase) {
+      showStatus('現在のパスフレーズを入力してください', 'error');
+      return;
+    }
+
+    if (!Number.isInteger(vaultAutoLockMinutes) || vaultAutoLockMinutes < 0 || vaultAutoLockMinutes > 1440) {
+      showStatus('自動ロックまでの時間は0〜1440分の整数で入力してください', 'error');
+      return;
+    }
+
+    if (!modelPrices) {
+      showStatus('単価は「モデル名: 入力, 出力」の形式で、0以上の数値を入力してください', 'error');
+      return;
+    }
+
     try {
       saveButton.disabled = true;
-      await chrome.storage.local.set({ claudeApiKey: apiKey });
+
+      // 既定以外のエンドポイントにはホスト権限が必要
+      const granted = await requestHostPermission(baseUrl || definition.defaultBaseUrl);
+      if (!granted) {
+        showStatus('エンドポイントへのアクセスが許可されませんでした', 'error');
+        saveButton.disabled = false;
+        return;
+      }
+
+      // パスフレーズが違う場合などに、キーのないプロバイダーの設定だけが保存されないよう先にキーを保存する
+      await saveApiKey(definition.apiKeyStorageKey, apiKey, passphrase, vaultAutoLockMinutes);
+
+      await saveSyncedSettings({
+        providerId,
+        providerBaseUrl: baseUrl,
+        model: modelInput.value.trim(),
+        maxTokens,
+        requestTimeoutSeconds,
+        correctionThreshold,
+        severityThreshold,
+        failureMode: failureModeSelect.value,
+        inlineLintEnabled: inlineLintInput.checked,
+        sendKey: sendKeySelect.value,
+        conversationContextEnabled: conversationContextInput.checked,
+        conversationContextMessages: contextMessages,
+        conversationContextTokenBudget: contextTokenBudget,
+        dailyBudget,
+        monthlyBudget,
+        budgetAction: budgetActionSelect.value,
+        budgetLongMessageLength,
+        modelPrices,
+        vaultAutoLockMinutes,
+        policies,
+        glossary: readGlossary()
+      });
+
       showStatus('設定を保存しました', 'success');
+      loadUsageSummary();
       
       setTimeout(() => {
         saveButton.disabled = false;
@@ -56,15 +903,24 @@ document.addEventListener('DOMContentLoaded', function() {
       
     } catch (error) {
       console.error('設定の保存エラー:', error);
-      showStatus('設定の保存に失敗しました', 'error');
+      showStatus(`設定の保存に失敗しました: ${error.message}`, 'error');
       saveButton.disabled = false;
     }
   }
 
+  async function requestHostPermission(url) {
+    const origins = [`${new URL(url).origin}/*`];
+    if (await chrome.permissions.contains({ origins })) {
+      return true;
+    }
+    return chrome.permissions.request({ origins });
+  }
+
   async function testConnection() {
+    const definition = PROVIDERS[providerSelect.value];
     const apiKey = apiKeyInput.value.trim();
     
-    if (!apiKey) {
+    if (definition.apiKeyStorageKey && !apiKey && !protectedKeys.has(definition.apiKeyStorageKey)) {
       showStatus('APIキーを入力してください', 'error');
       return;
     }
@@ -73,14 +929,16 @@ document.addEventListener('DOMContentLoaded', function() {
       testButton.disabled = true;
       testButton.textContent = 'テスト中...';
       
-      // テストメッセージを送信
-      const response = await chrome.runtime.sendMessage({
-        action: 'correctText',
-        text: 'こんにちは'
+      // 入力中の値で確認する（APIキーが空欄なら保存済みのキーを使う）
+      const response = await sendRuntimeMessage({
+        action: 'validateKey',
+        providerId: providerSelect.value,
+        baseUrl: baseUrlInput.value.trim(),
+        apiKey: apiKey || undefined
       });
 
       if (response.success) {
-        showStatus('✅ Claude APIとの接続に成功しました', 'success');
+        showStatus('✅ 校正APIとの接続に成功しました', 'success');
       } else {
         showStatus(`❌ 接続テストに失敗: ${response.error}`, 'error');
       }
@@ -103,4 +961,4 @@ document.addEventListener('DOMContentLoaded', function() {
       status.style.display = 'none';
     }, 5000);
   }
-});
\ No newline at end of file
+});
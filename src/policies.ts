@@ -0,0 +1,161 @@
+// ワークスペース・チャンネル・DMごとの校正ポリシー
+//
+// ルールは上から順に評価し、最初にマッチしたものを使う。
+// ルールで指定していない項目はグローバル設定の値を使う。
+
+import type { FailureMode, Settings } from './settings';
+
+// 校正時に目指すトーン（none は指定なし）
+export type ToneTarget = 'none' | 'formal' | 'casual' | 'concise' | 'friendly';
+
+export const TONE_TARGETS: ToneTarget[] = ['none', 'formal', 'casual', 'concise', 'friendly'];
+
+export type ConversationType = 'any' | 'channel' | 'dm';
+
+export interface PolicyRule {
+  id: string;
+  name: string;
+  // 空文字は「すべて」。* をワイルドカードとして使える
+  workspace: string;
+  channel: string;
+  conversationType: ConversationType;
+  enabled: boolean;
+  correctionThreshold?: number;
+  toneTarget?: ToneTarget;
+  failureMode?: FailureMode;
+  // 翻訳モードで翻訳する言語（例: "English", "Spanish"）
+  targetLanguage?: string;
+}
+
+// Slack のURLとDOMから解決した会話の情報
+export interface ConversationContext {
+  // サブドメイン・チームID・（app.slack.com の場合）ワークスペースのドメイン
+  workspaces: string[];
+  channelId: string | null;
+  channelName: string | null;
+  isDM: boolean;
+}
+
+export interface ResolvedPolicy {
+  ruleId: string | null;
+  ruleName: string | null;
+  enabled: boolean;
+  correctionThreshold: number;
+  toneTarget: ToneTarget;
+  failureMode: FailureMode;
+  targetLanguage: string;
+}
+
+export const DEFAULT_TARGET_LANGUAGE = 'English';
+
+const FAILURE_MODES: FailureMode[] = ['send', 'warn', 'block'];
+const CONVERSATION_TYPES: ConversationType[] = ['any', 'channel', 'dm'];
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function matchesPattern(pattern: string, candidates: Array<string | null>): boolean {
+  const trimmed = pattern.trim().replace(/^#/, '');
+  if (!trimmed || trimmed === '*') return true;
+  const regexp = globToRegExp(trimmed);
+  return candidates.some(candidate => candidate !== null && regexp.test(candidate.replace(/^#/, '')));
+}
+
+export function matchesRule(rule: PolicyRule, context: ConversationContext): boolean {
+  if (rule.conversationType === 'dm' && !context.isDM) return false;
+  if (rule.conversationType === 'channel' && context.isDM) return false;
+
+  return matchesPattern(rule.workspace, context.workspaces) &&
+         matchesPattern(rule.channel, [context.channelId, context.channelName]);
+}
+
+export function resolvePolicy(settings: Settings, context: ConversationContext): ResolvedPolicy {
+  const rule = settings.policies.find(r => matchesRule(r, context)) || null;
+
+  return {
+    ruleId: rule?.id ?? null,
+    ruleName: rule?.name ?? null,
+    enabled: rule ? rule.enabled : true,
+    correctionThreshold: rule?.correctionThreshold ?? settings.correctionThreshold,
+    toneTarget: rule?.toneTarget ?? 'none',
+    failureMode: rule?.failureMode ?? settings.failureMode,
+    targetLanguage: rule?.targetLanguage ?? DEFAULT_TARGET_LANGUAGE
+  };
+}
+
+// 保存値を検証し、不正なルールは取り除く
+export function sanitizePolicyRules(value: unknown): PolicyRule[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(rule => rule && typeof rule === 'object' && typeof rule.id === 'string')
+    .map(rule => ({
+      id: rule.id,
+      name: typeof rule.name === 'string' ? rule.name : '',
+      workspace: typeof rule.workspace === 'string' ? rule.workspace.trim() : '',
+      channel: typeof rule.channel === 'string' ? rule.channel.trim() : '',
+      conversationType: CONVERSATION_TYPES.includes(rule.conversationType) ? rule.conversationType : 'any',
+      enabled: rule.enabled !== false,
+      correctionThreshold: typeof rule.correctionThreshold === 'number' && !Number.isNaN(rule.correctionThreshold)
+        ? Math.min(1, Math.max(0, rule.correctionThreshold))
+        : undefined,
+      toneTarget: TONE_TARGETS.includes(rule.toneTarget) ? rule.toneTarget : undefined,
+      failureMode: FAILURE_MODES.includes(rule.failureMode) ? rule.failureMode : undefined,
+      targetLanguage: typeof rule.targetLanguage === 'string' && rule.targetLanguage.trim()
+        ? rule.targetLanguage.trim().slice(0, 40)
+        : undefined
+    }));
+}
+
+// Slack のURL（例: https://app.slack.com/client/T0123/C0456）から会話の情報を取り出す
+export function parseSlackUrl(url: string): Omit<ConversationContext, 'channelName'> {
+  const parsed = new URL(url);
+  const subdomain = parsed.hostname.replace(/\.slack\.com$/, '');
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  const clientIndex = segments.indexOf('client');
+
+  const workspaces: string[] = [];
+  if (subdomain && subdomain !== 'app' && subdomain !== parsed.hostname) {
+    workspaces.push(subdomain);
+  }
+
+  let channelId: string | null = null;
+  if (clientIndex !== -1) {
+    const teamId = segments[clientIndex + 1];
+    if (teamId) workspaces.push(teamId);
+    channelId = segments[clientIndex + 2] || null;
+  } else {
+    // 旧形式: https://myteam.slack.com/messages/C0456
+    const messagesIndex = segments.indexOf('messages');
+    if (messagesIndex !== -1) channelId = segments[messagesIndex + 1] || null;
+  }
+
+  // D から始まるIDはDM
+  const isDM = channelId !== null && /^D[A-Z0-9]+$/.test(channelId);
+
+  return { workspaces, channelId, isDM };
+}
+
+// Slack がページの localStorage に保存している設定（localConfig_v2）からチームのドメインを取り出す。
+// app.slack.com ではURLにチームIDしか含まれないため、サブドメインで書いたルールにマッチさせるのに使う
+export function parseWorkspaceDomain(localConfig: string | null, teamId: string): string | null {
+  if (!localConfig) return null;
+
+  let team: { domain?: unknown; url?: unknown } | undefined;
+  try {
+    team = JSON.parse(localConfig)?.teams?.[teamId];
+  } catch {
+    return null;
+  }
+  if (!team || typeof team !== 'object') return null;
+
+  if (typeof team.domain === 'string' && team.domain) return team.domain;
+  // 例: "https://myteam.slack.com/"
+  if (typeof team.url === 'string') {
+    const match = team.url.match(/^https:\/\/([a-z0-9-]+)\.(?:enterprise\.)?slack\.com/i);
+    if (match) return match[1];
+  }
+  return null;
+}
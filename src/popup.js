@@ -0,0 +1,52 @@
+// Popup script
+import { loadSettings } from './settings';
+import { BUDGET_ACTION_LABELS, UsageStore, checkBudget, formatUsd } from './usage';
+
+document.addEventListener('DOMContentLoaded', function() {
+  const todayElement = document.getElementById('today');
+  const monthElement = document.getElementById('month');
+  const budgetWarning = document.getElementById('budgetWarning');
+  const unpricedNote = document.getElementById('unpriced');
+
+  document.getElementById('openOptions').addEventListener('click', e => {
+    e.preventDefault();
+    chrome.runtime.openOptionsPage();
+  });
+
+  render();
+
+  async function render() {
+    try {
+      const [settings, summary] = await Promise.all([loadSettings(), new UsageStore().summarize()]);
+
+      renderPeriod(todayElement, '今日', summary.today, settings.dailyBudget);
+      renderPeriod(monthElement, '今月', summary.month, settings.monthlyBudget);
+
+      const status = checkBudget(summary, settings);
+      if (status.exceeded) {
+        budgetWarning.textContent = `${status.exceeded === 'daily' ? '今日' : '今月'}の上限に達しています（${BUDGET_ACTION_LABELS[status.action]}）`;
+        budgetWarning.style.display = 'block';
+      }
+
+      if (summary.month.unpricedRequests > 0) {
+        unpricedNote.textContent = `単価が未設定のモデルへの${summary.month.unpricedRequests}回のリクエストはコストに含まれていません`;
+        unpricedNote.style.display = 'block';
+      }
+    } catch (error) {
+      console.error('利用量の読み込みエラー:', error);
+      todayElement.textContent = '利用量を読み込めませんでした';
+    }
+  }
+
+  function renderPeriod(element, label, totals, budget) {
+    const ratio = budget > 0 ? Math.min(1, totals.cost / budget) : 0;
+    element.innerHTML = `
+      <div class="period-header">
+        <span>${label}</span>
+        <span>${formatUsd(totals.cost)}${budget > 0 ? ` / ${formatUsd(budget)}` : ''}</span>
+      </div>
+      ${budget > 0 ? `<div class="meter"><div class="meter-fill ${ratio >= 1 ? 'over' : ''}" style="width: ${ratio * 100}%"></div></div>` : ''}
+      <div class="detail">${totals.requests}回 ・ 入力 ${totals.inputTokens.toLocaleString()} / 出力 ${totals.outputTokens.toLocaleString()} トークン</div>
+    `;
+  }
+});
@@ -0,0 +1,181 @@
+// 校正プロンプトに添える会話の文脈（チャンネル名・DMかどうか・直近のメッセージ）
+//
+// 「sure thing」が役員への返信として適切かどうかは、下書きだけでは判断できない。
+// content script で表示中のメッセージを少しだけ抜き出し、トークン数の上限内で
+// background に渡す。プライバシーのため、設定でオンにした場合のみ送信する。
+
+export type AuthorRole = 'self' | 'other';
+
+export interface PromptContextMessage {
+  author: string;
+  // self: 自分 / other: 自分以外
+  role: AuthorRole;
+  text: string;
+}
+
+export interface PromptContext {
+  channelName: string | null;
+  isDM: boolean;
+  // スレッド内の返信かどうか（true の場合 messages はスレッド内のもの）
+  inThread: boolean;
+  // 古い順
+  messages: PromptContextMessage[];
+}
+
+// 1件あたりの最大文字数（トークン数の上限とは別に、極端に長いメッセージを切り詰める）
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_AUTHOR_LENGTH = 80;
+const MAX_MESSAGES = 50;
+
+const THREAD_PANE_SELECTOR = '[data-qa="threads_flexpane"], .p-threads_flexpane';
+const MESSAGE_PANE_SELECTOR = '[data-qa="message_pane"], .p-message_pane, .c-message_list';
+const MESSAGE_SELECTOR = '[data-qa="message_container"], .c-message_kit__message';
+const SENDER_SELECTOR = '[data-qa="message_sender_name"], .c-message__sender_button, [data-message-sender]';
+const TEXT_SELECTOR = '[data-qa="message-text"], .c-message_kit__blocks, .p-rich_text_section';
+
+function collapse(text: string, maxLength: number): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 1)}…` : collapsed;
+}
+
+// おおよそのトークン数（ASCII は4文字で1トークン、それ以外（日本語など）は1文字で1トークン）
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+function messageTokens(message: PromptContextMessage): number {
+  return estimateTokens(`${message.author}: ${message.text}`) + 4;
+}
+
+// 新しいメッセージを優先して、トークン数の上限に収まるように古いものから削る
+export function fitToTokenBudget(context: PromptContext, budget: number): PromptContext {
+  let remaining = budget - estimateTokens(context.channelName || '') - 16;
+  const kept: PromptContextMessage[] = [];
+
+  for (let i = context.messages.length - 1; i >= 0 && remaining > 0; i--) {
+    const message = context.messages[i];
+    const tokens = messageTokens(message);
+    if (tokens <= remaining) {
+      kept.unshift(message);
+      remaining -= tokens;
+    } else {
+      // 収まらない場合は末尾（最新の部分）を残して切り詰め、それ以上古いものは含めない
+      const ratio = remaining / tokens;
+      const length = Math.floor(message.text.length * ratio);
+      if (length > 0) {
+        kept.unshift({ ...message, text: `…${message.text.slice(message.text.length - length)}` });
+      }
+      break;
+    }
+  }
+
+  return { ...context, messages: kept };
+}
+
+// content script から受け取った値を検証する（不正な値は null）
+export function sanitizePromptContext(value: unknown, budget: number): PromptContext | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+
+  const messages = Array.isArray(raw.messages)
+    ? raw.messages
+      .filter((message): message is Record<string, unknown> =>
+        !!message && typeof message === 'object' &&
+        typeof (message as Record<string, unknown>).text === 'string')
+      .slice(-MAX_MESSAGES)
+      .map(message => ({
+        author: typeof message.author === 'string' ? collapse(message.author, MAX_AUTHOR_LENGTH) : '',
+        role: (message.role === 'self' ? 'self' : 'other') as AuthorRole,
+        text: collapse(message.text as string, MAX_MESSAGE_LENGTH)
+      }))
+      .filter(message => message.text.length > 0)
+    : [];
+
+  return fitToTokenBudget({
+    channelName: typeof raw.channelName === 'string' && raw.channelName.trim()
+      ? collapse(raw.channelName, MAX_AUTHOR_LENGTH)
+      : null,
+    isDM: raw.isDM === true,
+    inThread: raw.inThread === true,
+    messages
+  }, budget);
+}
+
+// プロンプトに埋め込む文脈の説明（文脈がなければ空文字）
+export function formatContextForPrompt(context: PromptContext | null): string {
+  if (!context) return '';
+
+  const place = context.isDM
+    ? 'ダイレクトメッセージ'
+    : context.channelName ? `#${context.channelName}` : 'チャンネル';
+  const lines = [
+    '会話の文脈（参考情報です。校正・書き換え・翻訳の対象ではなく、指摘もしないでください）:',
+    `- 場所: ${place}${context.inThread ? '（スレッドへの返信）' : ''}`
+  ];
+
+  if (context.messages.length > 0) {
+    lines.push('- 直前のメッセージ（古い順）:');
+    context.messages.forEach(message => {
+      const role = message.role === 'self' ? '自分' : '相手';
+      lines.push(`  [${role}] ${message.author || '不明'}: "${message.text}"`);
+    });
+  }
+
+  lines.push('相手との関係や会話の流れを踏まえ、言い回しの丁寧さ・トーンが場面に合っているかも考慮してください。');
+  return `${lines.join('\n')}\n\n`;
+}
+
+// Slack が localStorage に保存しているログイン中のユーザーID（取得できなければ空）
+function getCurrentUserIds(): Set<string> {
+  try {
+    const config = JSON.parse(localStorage.getItem('localConfig_v2') || '{}');
+    const teams = Object.values(config.teams || {}) as Array<{ user_id?: string }>;
+    return new Set(teams.map(team => team.user_id).filter((id): id is string => !!id));
+  } catch {
+    return new Set();
+  }
+}
+
+// 入力欄と同じ会話（スレッドならスレッド、それ以外はチャンネル）に表示中の直近のメッセージ
+export function extractRecentMessages(editor: HTMLElement, limit: number): PromptContextMessage[] {
+  if (limit <= 0) return [];
+
+  const pane = editor.closest(THREAD_PANE_SELECTOR) || document.querySelector(MESSAGE_PANE_SELECTOR);
+  if (!pane) return [];
+
+  const selfIds = getCurrentUserIds();
+  const messages: PromptContextMessage[] = [];
+  let author = '';
+  let role: AuthorRole = 'other';
+
+  pane.querySelectorAll(MESSAGE_SELECTOR).forEach(element => {
+    // 入れ子になった要素を重複して数えない。編集中のメッセージ自体も含めない
+    if (element.parentElement?.closest(MESSAGE_SELECTOR) || element.contains(editor)) return;
+
+    // 同じ人の連続したメッセージには名前が表示されないので、直前の送信者を引き継ぐ
+    const sender = element.querySelector(SENDER_SELECTOR);
+    if (sender) {
+      author = collapse(sender.textContent || '', MAX_AUTHOR_LENGTH);
+      const senderId = sender.getAttribute('data-message-sender') ||
+                       sender.closest('[data-message-sender]')?.getAttribute('data-message-sender');
+      role = senderId && selfIds.has(senderId) ? 'self' : 'other';
+    }
+
+    const textElement = element.querySelector(TEXT_SELECTOR) as HTMLElement | null;
+    const text = collapse(textElement?.innerText || '', MAX_MESSAGE_LENGTH);
+    if (text) {
+      messages.push({ author, role, text });
+    }
+  });
+
+  return messages.slice(-limit);
+}
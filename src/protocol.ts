@@ -0,0 +1,182 @@
+// background と content script・拡張機能ページの間のメッセージ定義
+//
+// メッセージの型はここにだけ定義し、送信側・受信側の両方で使う。拡張機能を更新した直後は
+// 古い content script が残っていることがあるため、リクエストにはプロトコルのバージョンを付け、
+// background で不一致や不正な値を検出する。
+
+import type { CircuitState } from './circuitBreaker';
+import type { HistoryEntry } from './historyStore';
+import type { ToneTarget } from './policies';
+import type { PromptContext } from './promptContext';
+import { isProviderId } from './providers';
+import type { CorrectionResult, IssueType, ProviderId } from './providers';
+import type { BudgetStatus } from './usage';
+
+// メッセージの形を変えたら上げる
+export const PROTOCOL_VERSION = 1;
+
+// correct: 誤字・自然さの校正 / rewrite: 指定したトーンへの書き換え / translate: 翻訳
+export type CorrectionMode = 'correct' | 'rewrite' | 'translate';
+
+export const CORRECTION_MODES: CorrectionMode[] = ['correct', 'rewrite', 'translate'];
+
+// 指摘の種類の表示名（校正ダイアログと履歴ページで共通）
+export const ISSUE_TYPE_LABELS: Record<IssueType, string> = {
+  typo: '誤字',
+  nativeness: '自然さ',
+  tone: 'トーン',
+  politeness: '敬語',
+  style: 'スタイル'
+};
+
+export interface CorrectTextRequest {
+  action: 'correctText';
+  text: string;
+  // キャンセル用のリクエストID
+  requestId?: string;
+  // ポリシーで指定されたトーン
+  toneTarget?: ToneTarget;
+  mode?: CorrectionMode;
+  // 翻訳モードの翻訳先
+  targetLanguage?: string;
+  // 会話の文脈（設定でオンの場合のみ）
+  context?: PromptContext;
+}
+
+export interface GetCircuitStateRequest {
+  action: 'getCircuitState';
+}
+
+export interface RecordHistoryRequest {
+  action: 'recordHistory';
+  // 校正履歴に保存するエントリ
+  entry: HistoryEntry;
+}
+
+// 履歴ページで履歴を削除した（background が持つ繰り返しの指摘の集計を作り直す）
+export interface HistoryChangedRequest {
+  action: 'historyChanged';
+}
+
+export interface CancelRequestRequest {
+  action: 'cancelRequest';
+  requestId: string;
+}
+
+// APIキーとエンドポイントの確認（オプションページの接続テスト）。
+// 省略した項目は保存済みの設定を使う
+export interface ValidateKeyRequest {
+  action: 'validateKey';
+  providerId?: ProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export type RuntimeRequest =
+  | CorrectTextRequest
+  | GetCircuitStateRequest
+  | RecordHistoryRequest
+  | HistoryChangedRequest
+  | CancelRequestRequest
+  | ValidateKeyRequest;
+
+export type RuntimeAction = RuntimeRequest['action'];
+
+export interface RuntimeResponseBase {
+  success: boolean;
+  error?: string;
+  // サーキットブレーカーの状態（content script に表示する）
+  circuit?: CircuitState;
+}
+
+export interface CorrectTextResponse extends RuntimeResponseBase {
+  data?: CorrectionResult;
+  // 利用額の上限に達してAPIを呼び出さなかった場合
+  budget?: BudgetStatus;
+}
+
+export interface RuntimeResponseMap {
+  correctText: CorrectTextResponse;
+  getCircuitState: RuntimeResponseBase;
+  recordHistory: RuntimeResponseBase;
+  historyChanged: RuntimeResponseBase;
+  cancelRequest: RuntimeResponseBase;
+  validateKey: RuntimeResponseBase;
+}
+
+export type RuntimeResponse<A extends RuntimeAction = RuntimeAction> = RuntimeResponseMap[A];
+
+// バージョンを付けて background に送る
+export function sendRuntimeMessage<R extends RuntimeRequest>(request: R): Promise<RuntimeResponse<R['action']>> {
+  return chrome.runtime.sendMessage({ ...request, protocolVersion: PROTOCOL_VERSION });
+}
+
+type ValidationResult = { request: RuntimeRequest } | { error: string };
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+// 受け取ったメッセージを検証する（型が合わないものはエラーの説明を返す）
+export function validateRuntimeRequest(value: unknown): ValidationResult {
+  if (!value || typeof value !== 'object') {
+    return { error: 'メッセージの形式が不正です' };
+  }
+  const raw = value as Record<string, unknown>;
+
+  if (raw.protocolVersion !== PROTOCOL_VERSION) {
+    return { error: '拡張機能が更新されました。Slackのページを再読み込みしてください。' };
+  }
+
+  switch (raw.action) {
+    case 'correctText':
+      if (typeof raw.text !== 'string' || !raw.text) {
+        return { error: 'correctText: text がありません' };
+      }
+      if (!isOptionalString(raw.requestId) || !isOptionalString(raw.toneTarget) || !isOptionalString(raw.targetLanguage)) {
+        return { error: 'correctText: requestId・toneTarget・targetLanguage は文字列で指定してください' };
+      }
+      if (raw.mode !== undefined && !CORRECTION_MODES.includes(raw.mode as CorrectionMode)) {
+        return { error: `correctText: 不明なモードです (${String(raw.mode)})` };
+      }
+      if (raw.context !== undefined && (typeof raw.context !== 'object' || raw.context === null)) {
+        return { error: 'correctText: context の形式が不正です' };
+      }
+      return { request: raw as unknown as CorrectTextRequest };
+
+    case 'getCircuitState':
+      return { request: { action: 'getCircuitState' } };
+
+    case 'recordHistory': {
+      const entry = raw.entry as Record<string, unknown> | undefined;
+      if (!entry || typeof entry !== 'object' ||
+          typeof entry.createdAt !== 'number' ||
+          typeof entry.originalText !== 'string' ||
+          !Array.isArray(entry.issues)) {
+        return { error: 'recordHistory: entry の形式が不正です' };
+      }
+      return { request: raw as unknown as RecordHistoryRequest };
+    }
+
+    case 'historyChanged':
+      return { request: { action: 'historyChanged' } };
+
+    case 'cancelRequest':
+      if (typeof raw.requestId !== 'string') {
+        return { error: 'cancelRequest: requestId がありません' };
+      }
+      return { request: { action: 'cancelRequest', requestId: raw.requestId } };
+
+    case 'validateKey':
+      if (raw.providerId !== undefined && !isProviderId(raw.providerId)) {
+        return { error: `validateKey: 不明なプロバイダーです (${String(raw.providerId)})` };
+      }
+      if (!isOptionalString(raw.baseUrl) || !isOptionalString(raw.apiKey)) {
+        return { error: 'validateKey: baseUrl・apiKey は文字列で指定してください' };
+      }
+      return { request: raw as unknown as ValidateKeyRequest };
+
+    default:
+      return { error: `不明なアクションです (${String(raw.action)})` };
+  }
+}
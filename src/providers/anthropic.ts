@@ -0,0 +1,139 @@
+import {
+  CORRECTION_TOOL_DESCRIPTION,
+  CORRECTION_TOOL_NAME,
+  correctionSchema,
+  emptyCorrectionResult,
+  parseJsonResponse,
+  validateCorrectionResult
+} from './schema';
+import { ProviderHTTPError } from './errors';
+import { CorrectionProvider, CorrectionRequest, CorrectionResponse, CorrectionResult, ProviderConfig } from './types';
+
+interface ClaudeAPIRequest {
+  model: string;
+  max_tokens: number;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: string;
+  }>;
+  tool_choice: {
+    type: 'tool';
+    name: string;
+  };
+  tools: Array<{
+    name: string;
+    description: string;
+    input_schema: object;
+  }>;
+}
+
+interface ClaudeAPIResponse {
+  content: Array<{
+    type: 'text' | 'tool_use';
+    text?: string;
+    name?: string;
+    input?: CorrectionResult;
+  }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Anthropic Messages API (tool use) によるプロバイダー
+export class AnthropicProvider implements CorrectionProvider {
+  readonly id = 'anthropic';
+  readonly requiresApiKey = true;
+
+  constructor(private config: ProviderConfig) {}
+
+  async correct(request: CorrectionRequest): Promise<CorrectionResponse> {
+    const requestBody: ClaudeAPIRequest = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt
+        }
+      ],
+      tool_choice: {
+        type: 'tool',
+        name: CORRECTION_TOOL_NAME
+      },
+      tools: [
+        {
+          name: CORRECTION_TOOL_NAME,
+          description: CORRECTION_TOOL_DESCRIPTION,
+          input_schema: correctionSchema
+        }
+      ]
+    };
+
+    const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey || '',
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await ProviderHTTPError.fromResponse(response);
+    }
+
+    const data: ClaudeAPIResponse = await response.json();
+    return {
+      result: this.parseStructuredResponse(data),
+      usage: data.usage
+        ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 }
+        : null
+    };
+  }
+
+  async validateKey(signal?: AbortSignal): Promise<void> {
+    const response = await fetch(`${this.config.baseUrl}/v1/models?limit=1`, {
+      headers: {
+        'x-api-key': this.config.apiKey || '',
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      signal
+    });
+
+    if (!response.ok) {
+      throw await ProviderHTTPError.fromResponse(response);
+    }
+  }
+
+  parseStructuredResponse(data: ClaudeAPIResponse): CorrectionResult {
+    try {
+      console.log('Raw API response:', data);
+
+      // Structured Outputsの場合、tool_useの結果を確認
+      if (data.content && data.content.length > 0) {
+        const toolUse = data.content.find(item => item.type === 'tool_use');
+
+        if (toolUse && toolUse.name === CORRECTION_TOOL_NAME && toolUse.input) {
+          return validateCorrectionResult(toolUse.input);
+        }
+
+        // テキストレスポンスの場合（フォールバック）
+        const textContent = data.content.find(item => item.type === 'text');
+        if (textContent && textContent.text) {
+          return parseJsonResponse(textContent.text);
+        }
+      }
+
+      throw new Error('Invalid response structure');
+
+    } catch (error) {
+      console.error('Structured response parsing error:', error);
+      return emptyCorrectionResult();
+    }
+  }
+}
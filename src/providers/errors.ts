@@ -0,0 +1,47 @@
+// プロバイダーのHTTPエラー（リトライ判定のためステータスと retry-after を保持する）
+
+export class ProviderHTTPError extends Error {
+  constructor(
+    readonly status: number,
+    detail: string,
+    readonly retryAfterMs: number | null
+  ) {
+    super(`API Error: ${status} - ${detail}`);
+    this.name = 'ProviderHTTPError';
+  }
+
+  static async fromResponse(response: Response): Promise<ProviderHTTPError> {
+    return new ProviderHTTPError(
+      response.status,
+      await readErrorMessage(response),
+      parseRetryAfter(response.headers)
+    );
+  }
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  if (typeof errorData.error === 'string') {
+    return errorData.error;
+  }
+  return errorData.error?.message || 'Unknown error';
+}
+
+// retry-after（秒 または HTTP日付）と retry-after-ms に対応
+function parseRetryAfter(headers: Headers): number | null {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,62 @@
+import { AnthropicProvider } from './anthropic';
+import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openai';
+import { CorrectionProvider, ProviderConfig, ProviderId } from './types';
+
+export * from './types';
+export { ProviderHTTPError } from './errors';
+export { isFallbackResult } from './schema';
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  apiKeyStorageKey: string | null;
+  apiKeyPlaceholder: string;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic (Claude)',
+    defaultBaseUrl: 'https://api.anthropic.com',
+    defaultModel: 'claude-haiku-4-5-20251001',
+    apiKeyStorageKey: 'claudeApiKey',
+    apiKeyPlaceholder: 'sk-ant-...'
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI互換 (Chat Completions)',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    apiKeyStorageKey: 'openaiApiKey',
+    apiKeyPlaceholder: 'sk-...'
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'ローカル (Ollama など)',
+    defaultBaseUrl: 'http://localhost:11434',
+    defaultModel: 'llama3.1',
+    apiKeyStorageKey: null,
+    apiKeyPlaceholder: ''
+  }
+};
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && value in PROVIDERS;
+}
+
+export function createProvider(id: ProviderId, config: ProviderConfig): CorrectionProvider {
+  // 末尾のスラッシュを除去してURLを組み立てやすくする
+  const normalized = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+
+  switch (id) {
+    case 'anthropic':
+      return new AnthropicProvider(normalized);
+    case 'openai':
+      return new OpenAICompatibleProvider(normalized);
+    case 'ollama':
+      return new OllamaProvider(normalized);
+  }
+}
@@ -0,0 +1,83 @@
+import { correctionSchema, parseJsonResponse } from './schema';
+import { ProviderHTTPError } from './errors';
+import { CorrectionProvider, CorrectionRequest, CorrectionResponse, ProviderConfig } from './types';
+
+interface OllamaChatResponse {
+  message?: {
+    role: string;
+    content: string;
+  };
+  // プロンプト・生成のトークン数
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+// Ollama などセルフホストのローカルエンドポイントによるプロバイダー
+export class OllamaProvider implements CorrectionProvider {
+  readonly id = 'ollama';
+  readonly requiresApiKey = false;
+
+  constructor(private config: ProviderConfig) {}
+
+  async correct(request: CorrectionRequest): Promise<CorrectionResponse> {
+    const requestBody = {
+      model: request.model,
+      stream: false,
+      // JSONスキーマで出力形式を固定する
+      format: correctionSchema,
+      options: {
+        num_predict: request.maxTokens
+      },
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt
+        }
+      ]
+    };
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await ProviderHTTPError.fromResponse(response);
+    }
+
+    const data: OllamaChatResponse = await response.json();
+    console.log('Raw API response:', data);
+
+    if (!data.message?.content) {
+      throw new Error('Invalid response structure');
+    }
+
+    return {
+      result: parseJsonResponse(data.message.content),
+      usage: data.prompt_eval_count !== undefined || data.eval_count !== undefined
+        ? { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 }
+        : null
+    };
+  }
+
+  // キーは不要だが、エンドポイントに接続できるかを確認する
+  async validateKey(signal?: AbortSignal): Promise<void> {
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/api/tags`, { headers, signal });
+
+    if (!response.ok) {
+      throw await ProviderHTTPError.fromResponse(response);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  CORRECTION_TOOL_DESCRIPTION,
+  CORRECTION_TOOL_NAME,
+  correctionSchema,
+  emptyCorrectionResult,
+  parseJsonResponse,
+  validateCorrectionResult
+} from './schema';
+import { ProviderHTTPError } from './errors';
+import { CorrectionProvider, CorrectionRequest, CorrectionResponse, CorrectionResult, ProviderConfig } from './types';
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      content?: string | null;
+      tool_calls?: Array<{
+        type: 'function';
+        function: {
+          name: string;
+          arguments: string;
+        };
+      }>;
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+// OpenAI互換の Chat Completions API (function calling) によるプロバイダー
+export class OpenAICompatibleProvider implements CorrectionProvider {
+  readonly id = 'openai';
+  readonly requiresApiKey = true;
+
+  constructor(private config: ProviderConfig) {}
+
+  async correct(request: CorrectionRequest): Promise<CorrectionResponse> {
+    const requestBody = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt
+        }
+      ],
+      tool_choice: {
+        type: 'function',
+        function: { name: CORRECTION_TOOL_NAME }
+      },
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: CORRECTION_TOOL_NAME,
+            description: CORRECTION_TOOL_DESCRIPTION,
+            parameters: correctionSchema
+          }
+        }
+      ]
+    };
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey || ''}`
+      },
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await ProviderHTTPError.fromResponse(response);
+    }
+
+    const data: ChatCompletionResponse = await response.json();
+    return {
+      result: this.parseChatCompletion(data),
+      usage: data.usage
+        ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+        : null
+    };
+  }
+
+  async validateKey(signal?: AbortSignal): Promise<void> {
+    const response = await fetch(`${this.config.baseUrl}/models`, {
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey || ''}`
+      },
+      signal
+    });
+
+    if (!response.ok) {
+      throw await ProviderHTTPError.fromResponse(response);
+    }
+  }
+
+  parseChatCompletion(data: ChatCompletionResponse): CorrectionResult {
+    try {
+      console.log('Raw API response:', data);
+
+      const message = data.choices?.[0]?.message;
+      if (message) {
+        const toolCall = message.tool_calls?.find(call => call.function?.name === CORRECTION_TOOL_NAME);
+        if (toolCall) {
+          return validateCorrectionResult(JSON.parse(toolCall.function.arguments));
+        }
+
+        // function callingに対応していないサーバーの場合（フォールバック）
+        if (message.content) {
+          return parseJsonResponse(message.content);
+        }
+      }
+
+      throw new Error('Invalid response structure');
+
+    } catch (error) {
+      console.error('Structured response parsing error:', error);
+      return emptyCorrectionResult();
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { CorrectionIssue, CorrectionResult, ISSUE_TYPES, IssueType } from './types';
+
+// 全プロバイダーで共通の構造化出力スキーマ
+export const CORRECTION_TOOL_NAME = 'correction_response';
+
+export const CORRECTION_TOOL_DESCRIPTION = 'テキスト校正の結果を構造化された形式で返す';
+
+export const correctionSchema = {
+  type: 'object',
+  properties: {
+    correctedText: {
+      type: 'string',
+      description: '校正後のテキスト'
+    },
+    issues: {
+      type: 'array',
+      description: '検出された問題のリスト',
+      items: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: [...ISSUE_TYPES],
+            description: '問題の種類'
+          },
+          original: {
+            type: 'string',
+            description: '修正前の文字列'
+          },
+          corrected: {
+            type: 'string',
+            description: '修正後の文字列'
+          },
+          reason: {
+            type: 'string',
+            description: '修正理由の説明(ここだけは日本語で、なんj民っぽく)'
+          },
+          severity: {
+            type: 'number',
+            minimum: 0.0,
+            maximum: 1.0,
+            description: 'ネイティブから見た不自然度 (0.0-1.0）'
+          },
+          start: {
+            type: 'integer',
+            minimum: 0,
+            description: '原文中で original が始まる位置（0始まりの文字オフセット）'
+          },
+          end: {
+            type: 'integer',
+            minimum: 0,
+            description: '原文中で original が終わる位置（この位置の文字は含まない）'
+          }
+        },
+        required: ['type', 'original', 'corrected', 'reason', 'severity', 'start', 'end']
+      }
+    },
+    score: {
+      type: 'number',
+      minimum: 0.0,
+      maximum: 1.0,
+      description: '校正が必要な度合いのスコア（0.0-1.0）'
+    },
+    needsCorrection: {
+      type: 'boolean',
+      description: '校正が必要かどうか'
+    }
+  },
+  required: ['correctedText', 'issues', 'score', 'needsCorrection']
+};
+
+// 応答を解釈できなかったときに返した結果（キャッシュしないよう区別する）
+const fallbackResults = new WeakSet<CorrectionResult>();
+
+export function emptyCorrectionResult(correctedText = ''): CorrectionResult {
+  const result: CorrectionResult = {
+    correctedText,
+    issues: [],
+    score: 0,
+    needsCorrection: false
+  };
+  fallbackResults.add(result);
+  return result;
+}
+
+export function isFallbackResult(result: CorrectionResult): boolean {
+  return fallbackResults.has(result);
+}
+
+// スキーマにない種類のうち、意味が対応するもの
+const ISSUE_TYPE_ALIASES: Record<string, IssueType> = {
+  grammar: 'typo',
+  spelling: 'typo',
+  naturalness: 'nativeness',
+  wording: 'nativeness',
+  formality: 'politeness',
+  clarity: 'style'
+};
+
+function parseNumber(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() ? Number(value.trim()) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+// 同じレスポンスのすべての重要度が 1 を超えている場合だけ、パーセント表記とみなす
+function usesPercentScale(issues: unknown[]): boolean {
+  const severities = issues
+    .map(issue => (issue && typeof issue === 'object' ? parseNumber((issue as Record<string, unknown>).severity) : null))
+    .filter((severity): severity is number => severity !== null);
+  return severities.length >= 2 && severities.every(severity => severity > 1);
+}
+
+// 0〜1 の値に直す（"0.8" のような文字列も受け付ける）。範囲外の値は捨てる。
+// percentScale の場合は 2〜100 の整数をパーセント表記として扱い、
+// それ以外で 1 を超える値（1.5 や 2 など）は「高い」という意味とみなして 1 にする
+function repairSeverity(value: unknown, percentScale: boolean): number | null {
+  const number = parseNumber(value);
+  if (number === null || number < 0 || number > 100) return null;
+  if (number <= 1) return number;
+  if (percentScale && Number.isInteger(number) && number >= 2) return number / 100;
+  return 1;
+}
+
+function repairIssueType(value: unknown): IssueType | null {
+  if (typeof value !== 'string') return null;
+  const type = value.trim().toLowerCase();
+  if ((ISSUE_TYPES as readonly string[]).includes(type)) return type as IssueType;
+  return ISSUE_TYPE_ALIASES[type] ?? null;
+}
+
+function isOffset(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// 指摘を1件検証する。original・corrected・重要度・種類が読み取れないものは捨てる
+function validateIssue(input: unknown, percentScale: boolean): CorrectionIssue | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+
+  const type = repairIssueType(raw.type);
+  const severity = repairSeverity(raw.severity, percentScale);
+  if (type === null || severity === null || typeof raw.original !== 'string' || typeof raw.corrected !== 'string') {
+    console.warn('Discarding invalid correction issue:', input);
+    return null;
+  }
+
+  const issue: CorrectionIssue = {
+    type,
+    original: raw.original,
+    corrected: raw.corrected,
+    reason: typeof raw.reason === 'string' ? raw.reason : '',
+    severity
+  };
+  // オフセットは整合しているものだけ残す（残らなくても anchoring で探し直す）
+  if (isOffset(raw.start) && isOffset(raw.end) && raw.end >= raw.start) {
+    issue.start = raw.start;
+    issue.end = raw.end;
+  }
+  return issue;
+}
+
+// モデルの出力（tool_use の input など）をそのまま信用せず、スキーマ通りのデータに検証・修復する
+// correctedText がない場合は修復できないのでエラーにする
+export function validateCorrectionResult(input: unknown): CorrectionResult {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid correction result: not an object');
+  }
+  const raw = input as Record<string, unknown>;
+
+  if (typeof raw.correctedText !== 'string') {
+    throw new Error('Invalid correction result: correctedText is missing');
+  }
+
+  const rawIssues: unknown[] = Array.isArray(raw.issues) ? raw.issues : [];
+  const percentScale = usesPercentScale(rawIssues);
+  const issues = rawIssues
+    .map(issue => validateIssue(issue, percentScale))
+    .filter((issue): issue is CorrectionIssue => issue !== null);
+  const score = repairSeverity(raw.score, percentScale) ?? Math.max(0, ...issues.map(issue => issue.severity));
+
+  return {
+    correctedText: raw.correctedText,
+    issues,
+    score,
+    needsCorrection: typeof raw.needsCorrection === 'boolean' ? raw.needsCorrection : issues.length > 0
+  };
+}
+
+// テキストレスポンスからJSONを抽出する（フォールバック）
+export function parseJsonResponse(responseText: string): CorrectionResult {
+  try {
+    // JSONを抽出（マークダウンコードブロックがある場合に対応）
+    const jsonMatch = responseText.match(/```json\n?([\s\S]*?)\n?```/) ||
+                     responseText.match(/\{[\s\S]*\}/);
+
+    if (jsonMatch) {
+      const jsonText = jsonMatch[1] || jsonMatch[0];
+      return validateCorrectionResult(JSON.parse(jsonText));
+    } else {
+      throw new Error('Invalid response format');
+    }
+  } catch (error) {
+    console.error('Response parsing error:', error);
+    // フォールバック：基本的なレスポンス
+    return emptyCorrectionResult(responseText);
+  }
+}
@@ -0,0 +1,60 @@
+// 校正プロバイダー共通の型定義
+
+// tone / politeness / style はトーンの書き換えで使う
+export const ISSUE_TYPES = ['typo', 'nativeness', 'tone', 'politeness', 'style'] as const;
+
+export type IssueType = typeof ISSUE_TYPES[number];
+
+export interface CorrectionIssue {
+  type: IssueType;
+  original: string;
+  corrected: string;
+  reason: string;
+  severity: number;
+  // 原文中の位置（end は含まない）。検証・再アンカー後に信頼できるものだけが残る
+  start?: number;
+  end?: number;
+  // 過去の校正履歴で同じ指摘を受けた回数（background が付与する）
+  repeatCount?: number;
+}
+
+export interface CorrectionResult {
+  correctedText: string;
+  issues: CorrectionIssue[];
+  score: number;
+  needsCorrection: boolean;
+}
+
+export type ProviderId = 'anthropic' | 'openai' | 'ollama';
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface CorrectionRequest {
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  // キャンセル・タイムアウト用
+  signal?: AbortSignal;
+}
+
+// APIが返したトークン数（返さないサーバーもある）
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CorrectionResponse {
+  result: CorrectionResult;
+  usage: TokenUsage | null;
+}
+
+export interface CorrectionProvider {
+  readonly id: ProviderId;
+  readonly requiresApiKey: boolean;
+  correct(request: CorrectionRequest): Promise<CorrectionResponse>;
+  // トークンを消費しないリクエストでAPIキーとエンドポイントを確認する（失敗時は ProviderHTTPError）
+  validateKey(signal?: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,72 @@
+// 一時的なエラーを指数バックオフ（ジッター付き）でリトライする
+
+import { ProviderHTTPError } from './providers';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+};
+
+// 429 / 529（過負荷）/ 5xx / 408 とネットワークエラーは一時的なものとして扱う
+// 400・401・403 などの恒久的な 4xx はリトライしない
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ProviderHTTPError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  // fetch のネットワークエラーは TypeError になる
+  return error instanceof TypeError;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function backoffDelay(attempt: number, options: RetryOptions, error: unknown): number {
+  // サーバーが retry-after を指定していればそれに従う（早く再送しないよう maxDelayMs で切り詰めない。
+  // 待ちきれない場合はタイムアウトで中断される）
+  if (error instanceof ProviderHTTPError && error.retryAfterMs !== null) {
+    return error.retryAfterMs;
+  }
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  // 複数タブが同時にリトライしないよう 50〜100% の範囲でばらつかせる
+  return exponential * (0.5 + Math.random() * 0.5);
+}
+
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      // キャンセル・タイムアウトやリトライ上限の場合はそのまま投げる
+      if (options.signal?.aborted || attempt >= options.maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, options, error);
+      console.log(`Retrying after ${Math.round(delay)}ms (attempt ${attempt + 1}/${options.maxRetries}):`, error);
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// Enter キーが送信になるかの判定
+//
+// Slack は既定で Enter で送信（Shift+Enter で改行）するが、設定で Ctrl+Enter 送信に
+// 変えられる。どちらで送信されるかを設定または自動検出で決め、送信になる Enter だけを
+// 横取りする。IME の変換確定・オートコンプリートの選択・改行には手を出さない。
+
+import type { SendKey } from './settings';
+
+const STORAGE_KEY = 'detectedSendKey';
+// Enter の後、Slack が送信して入力欄を空にするまで待つ時間
+const DETECTION_DELAY_MS = 300;
+
+// メンション・チャンネル・絵文字・コマンドの候補ポップアップ
+const AUTOCOMPLETE_SELECTORS = [
+  '[data-qa="texty_autocomplete_menu"]',
+  '.c-texty_autocomplete',
+  '[data-qa="autocomplete_menu"]',
+  '.p-autocomplete_menu'
+];
+
+// send: 校正して送信 / translate: 翻訳して送信 / null: Slack にそのまま渡す
+export type EnterIntent = 'send' | 'translate' | null;
+
+export type ResolvedSendKey = Exclude<SendKey, 'auto'>;
+
+// IME の変換確定の Enter（Safari など isComposing が立たない環境では keyCode 229）
+export function isImeEnter(e: KeyboardEvent): boolean {
+  return e.isComposing || e.keyCode === 229;
+}
+
+export function isAutocompleteOpen(editor: HTMLElement): boolean {
+  if (editor.getAttribute('aria-expanded') === 'true') return true;
+  return AUTOCOMPLETE_SELECTORS.some(selector =>
+    Array.from(document.querySelectorAll(selector)).some(menu => (menu as HTMLElement).offsetParent !== null)
+  );
+}
+
+export function isPlainEnter(e: KeyboardEvent): boolean {
+  return e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey;
+}
+
+export function classifyEnter(e: KeyboardEvent, editor: HTMLElement, sendKey: ResolvedSendKey): EnterIntent {
+  if (e.key !== 'Enter' || isImeEnter(e)) return null;
+
+  // Ctrl+Enter / Cmd+Enter はどちらの設定でも校正し、Shift も押されていれば翻訳する
+  if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+    return e.shiftKey ? 'translate' : 'send';
+  }
+
+  // Enter 送信の場合のみ、修飾キーなしの Enter を送信として扱う
+  if (sendKey === 'enter' && isPlainEnter(e) && !isAutocompleteOpen(editor)) {
+    return 'send';
+  }
+  return null;
+}
+
+// sendKey が auto の場合に、修飾キーなしの Enter で送信されたかを観察して記録する
+//
+// 検出するまでは Enter 送信として扱い、最初の送信から校正する。Enter 送信として横取りした
+// Enter は、校正後に送信ボタンではなく Enter のまま Slack に渡して結果を観察する（observeResult）。
+// Slack 側が Ctrl+Enter 送信だった（改行された）場合はその時点で検出し直し、以降は横取りしない。
+// Ctrl+Enter 送信と検出した後で Slack 側を Enter 送信に変えた場合も、次の送信で検出し直す。
+export class SendKeyDetector {
+  private detected: ResolvedSendKey | null = null;
+
+  async load(): Promise<void> {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    const stored = result[STORAGE_KEY];
+    this.detected = stored === 'enter' || stored === 'modEnter' ? stored : null;
+  }
+
+  resolve(sendKey: SendKey): ResolvedSendKey {
+    if (sendKey !== 'auto') return sendKey;
+    return this.detected ?? 'enter';
+  }
+
+  // 横取りしなかった修飾キーなしの Enter の結果を見る
+  observe(e: KeyboardEvent, editor: HTMLElement, getText: (editor: HTMLElement) => string): void {
+    if (!isPlainEnter(e) || isImeEnter(e) || isAutocompleteOpen(editor)) return;
+    this.observeResult(editor, getText);
+  }
+
+  // Slack に渡した修飾キーなしの Enter で送信されたか、改行されたかを記録する
+  observeResult(editor: HTMLElement, getText: (editor: HTMLElement) => string): void {
+    if (!getText(editor).trim()) return;
+
+    setTimeout(() => {
+      // 入力欄が空になった（編集欄は閉じた）なら送信された、文字が残っていれば改行された
+      const sent = !editor.isConnected || !getText(editor).trim();
+      const detected: ResolvedSendKey = sent ? 'enter' : 'modEnter';
+      if (detected === this.detected) return;
+      this.detected = detected;
+      console.log('🔧 Detected send key:', detected);
+      chrome.storage.local.set({ [STORAGE_KEY]: detected })
+        .catch(error => console.error('🔧 Failed to save detected send key:', error));
+    }, DETECTION_DELAY_MS);
+  }
+}
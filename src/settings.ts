@@ -0,0 +1,261 @@
+// 拡張機能の設定スキーマ（background / content / options で共有）
+
+import { EMPTY_GLOSSARY, Glossary, sanitizeGlossary } from './glossary';
+import { PolicyRule, sanitizePolicyRules } from './policies';
+import { ProviderId, isProviderId } from './providers';
+import { BUDGET_ACTIONS, BudgetAction, DEFAULT_MODEL_PRICES, ModelPrice, sanitizeModelPrices } from './usage';
+
+// 校正に失敗したときの動作
+// send: 何もせず送信 / warn: トーストで通知して送信 / block: 送信を止めてエラーダイアログを表示
+export type FailureMode = 'send' | 'warn' | 'block';
+
+export const FAILURE_MODES: FailureMode[] = ['send', 'warn', 'block'];
+
+// Slack でメッセージを送信するキー（Slack の「Enterキーを押したときの動作」の設定に合わせる）
+// auto: 自動検出 / enter: Enter で送信 / modEnter: Ctrl+Enter（Mac は Cmd+Enter）で送信
+export type SendKey = 'auto' | 'enter' | 'modEnter';
+
+export const SEND_KEYS: SendKey[] = ['auto', 'enter', 'modEnter'];
+
+export interface Settings {
+  providerId: ProviderId;
+  providerBaseUrl: string;
+  // 空文字の場合はプロバイダーの既定モデルを使用
+  model: string;
+  maxTokens: number;
+  // APIリクエストのタイムアウト（秒）
+  requestTimeoutSeconds: number;
+  // このスコア以上で校正ダイアログを表示
+  correctionThreshold: number;
+  // この重要度以下の指摘は表示しない
+  severityThreshold: number;
+  failureMode: FailureMode;
+  // ワークスペース・チャンネルごとのポリシー（上から順に評価）
+  policies: PolicyRule[];
+  // チームの用語集（プロンプトと後処理の両方で使う）
+  glossary: Glossary;
+  // 校正履歴を保存するか、何日間保持するか（0 は無期限）
+  historyEnabled: boolean;
+  historyRetentionDays: number;
+  // 入力中に文ごとに校正して波線を表示する（APIの呼び出しが増えるため既定はオフ）
+  inlineLintEnabled: boolean;
+  sendKey: SendKey;
+  // 直前のメッセージなどの会話の文脈をプロンプトに含める（メッセージを外部に送るため既定はオフ）
+  conversationContextEnabled: boolean;
+  // 含めるメッセージの最大件数と、文脈全体のおおよそのトークン数の上限
+  conversationContextMessages: number;
+  conversationContextTokenBudget: number;
+  // API利用額（USD）の日・月の上限（0 は上限なし）と、上限に達したときの動作
+  dailyBudget: number;
+  monthlyBudget: number;
+  budgetAction: BudgetAction;
+  // budgetAction が longOnly のとき、この文字数以上のメッセージだけAPIで校正する
+  budgetLongMessageLength: number;
+  // 推定コストの計算に使うモデルごとの単価
+  modelPrices: ModelPrice[];
+  // パスフレーズで保護したAPIキーを自動でロックするまでの分数（0 はブラウザを閉じるまで）
+  vaultAutoLockMinutes: number;
+}
+
+export const SETTINGS_VERSION = 1;
+
+const VERSION_KEY = 'settingsVersion';
+
+// chrome.storage.sync に保存できる1項目あたりの上限（キー名を含むJSONのバイト数）
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+
+// 上限を超えやすい一覧の項目（エラーメッセージ用）
+const LIST_SETTING_LABELS: Partial<Record<keyof Settings, string>> = {
+  policies: 'ワークスペース・チャンネルごとのルール',
+  glossary: '用語集',
+  modelPrices: 'モデルごとの単価'
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  providerId: 'anthropic',
+  providerBaseUrl: '',
+  model: '',
+  maxTokens: 1024,
+  requestTimeoutSeconds: 15,
+  correctionThreshold: 0.3,
+  severityThreshold: 0.3,
+  failureMode: 'send',
+  policies: [],
+  glossary: EMPTY_GLOSSARY,
+  historyEnabled: true,
+  historyRetentionDays: 90,
+  inlineLintEnabled: false,
+  sendKey: 'auto',
+  conversationContextEnabled: false,
+  conversationContextMessages: 5,
+  conversationContextTokenBudget: 400,
+  dailyBudget: 0,
+  monthlyBudget: 0,
+  budgetAction: 'local',
+  budgetLongMessageLength: 200,
+  modelPrices: DEFAULT_MODEL_PRICES,
+  vaultAutoLockMinutes: 30
+};
+
+export const SETTINGS_KEYS = Object.keys(DEFAULT_SETTINGS) as Array<keyof Settings>;
+
+// バージョンごとのマイグレーション（index = 移行前のバージョン）
+const migrations: Array<(stored: Record<string, unknown>) => Promise<Record<string, unknown>>> = [
+  // v0 -> v1: chrome.storage.local に保存していたプロバイダー設定を sync へ移す
+  async (stored) => {
+    const legacy = await chrome.storage.local.get(['providerId', 'providerBaseUrl']);
+    await chrome.storage.local.remove(['providerId', 'providerBaseUrl']);
+    return { ...legacy, ...stored };
+  }
+];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && !Number.isNaN(value);
+}
+
+// 保存値を検証し、不正な値は既定値で置き換える
+export function sanitizeSettings(stored: Record<string, unknown>): Settings {
+  return {
+    providerId: isProviderId(stored.providerId) ? stored.providerId : DEFAULT_SETTINGS.providerId,
+    providerBaseUrl: typeof stored.providerBaseUrl === 'string'
+      ? stored.providerBaseUrl.trim()
+      : DEFAULT_SETTINGS.providerBaseUrl,
+    model: typeof stored.model === 'string' ? stored.model.trim() : DEFAULT_SETTINGS.model,
+    maxTokens: isNumber(stored.maxTokens)
+      ? Math.round(clamp(stored.maxTokens, 256, 8192))
+      : DEFAULT_SETTINGS.maxTokens,
+    requestTimeoutSeconds: isNumber(stored.requestTimeoutSeconds)
+      ? Math.round(clamp(stored.requestTimeoutSeconds, 3, 120))
+      : DEFAULT_SETTINGS.requestTimeoutSeconds,
+    correctionThreshold: isNumber(stored.correctionThreshold)
+      ? clamp(stored.correctionThreshold, 0, 1)
+      : DEFAULT_SETTINGS.correctionThreshold,
+    severityThreshold: isNumber(stored.severityThreshold)
+      ? clamp(stored.severityThreshold, 0, 1)
+      : DEFAULT_SETTINGS.severityThreshold,
+    failureMode: FAILURE_MODES.includes(stored.failureMode as FailureMode)
+      ? stored.failureMode as FailureMode
+      : DEFAULT_SETTINGS.failureMode,
+    policies: sanitizePolicyRules(stored.policies),
+    glossary: sanitizeGlossary(stored.glossary),
+    historyEnabled: typeof stored.historyEnabled === 'boolean'
+      ? stored.historyEnabled
+      : DEFAULT_SETTINGS.historyEnabled,
+    historyRetentionDays: isNumber(stored.historyRetentionDays)
+      ? Math.round(clamp(stored.historyRetentionDays, 0, 3650))
+      : DEFAULT_SETTINGS.historyRetentionDays,
+    inlineLintEnabled: typeof stored.inlineLintEnabled === 'boolean'
+      ? stored.inlineLintEnabled
+      : DEFAULT_SETTINGS.inlineLintEnabled,
+    sendKey: SEND_KEYS.includes(stored.sendKey as SendKey)
+      ? stored.sendKey as SendKey
+      : DEFAULT_SETTINGS.sendKey,
+    conversationContextEnabled: typeof stored.conversationContextEnabled === 'boolean'
+      ? stored.conversationContextEnabled
+      : DEFAULT_SETTINGS.conversationContextEnabled,
+    conversationContextMessages: isNumber(stored.conversationContextMessages)
+      ? Math.round(clamp(stored.conversationContextMessages, 0, 20))
+      : DEFAULT_SETTINGS.conversationContextMessages,
+    conversationContextTokenBudget: isNumber(stored.conversationContextTokenBudget)
+      ? Math.round(clamp(stored.conversationContextTokenBudget, 100, 2000))
+      : DEFAULT_SETTINGS.conversationContextTokenBudget,
+    dailyBudget: isNumber(stored.dailyBudget)
+      ? clamp(stored.dailyBudget, 0, 10000)
+      : DEFAULT_SETTINGS.dailyBudget,
+    monthlyBudget: isNumber(stored.monthlyBudget)
+      ? clamp(stored.monthlyBudget, 0, 100000)
+      : DEFAULT_SETTINGS.monthlyBudget,
+    budgetAction: BUDGET_ACTIONS.includes(stored.budgetAction as BudgetAction)
+      ? stored.budgetAction as BudgetAction
+      : DEFAULT_SETTINGS.budgetAction,
+    budgetLongMessageLength: isNumber(stored.budgetLongMessageLength)
+      ? Math.round(clamp(stored.budgetLongMessageLength, 20, 5000))
+      : DEFAULT_SETTINGS.budgetLongMessageLength,
+    modelPrices: sanitizeModelPrices(stored.modelPrices),
+    vaultAutoLockMinutes: isNumber(stored.vaultAutoLockMinutes)
+      ? Math.round(clamp(stored.vaultAutoLockMinutes, 0, 1440))
+      : DEFAULT_SETTINGS.vaultAutoLockMinutes
+  };
+}
+
+// 管理者がポリシーで配布した設定（chrome.storage.managed。スキーマは managed_schema.json）。
+// 指定された項目はユーザーの設定より優先し、オプションページでは変更できない
+export async function loadManagedSettings(): Promise<Partial<Record<keyof Settings, unknown>>> {
+  try {
+    const managed = await chrome.storage.managed.get(SETTINGS_KEYS);
+    return Object.fromEntries(
+      Object.entries(managed).filter(([key, value]) => SETTINGS_KEYS.includes(key as keyof Settings) && value !== undefined)
+    );
+  } catch (error) {
+    // 管理ストレージを使えない環境では何も指定されていないものとして扱う
+    console.error('管理設定の読み込みエラー:', error);
+    return {};
+  }
+}
+
+export async function getManagedKeys(): Promise<Array<keyof Settings>> {
+  return Object.keys(await loadManagedSettings()) as Array<keyof Settings>;
+}
+
+export async function loadSettings(): Promise<Settings> {
+  const [user, managed] = await Promise.all([loadUserSettings(), loadManagedSettings()]);
+  return sanitizeSettings({ ...user, ...managed });
+}
+
+// ユーザーが保存した設定（管理設定を適用する前）
+async function loadUserSettings(): Promise<Settings> {
+  let stored = await chrome.storage.sync.get([VERSION_KEY, ...SETTINGS_KEYS]);
+  const version = typeof stored[VERSION_KEY] === 'number' ? stored[VERSION_KEY] as number : 0;
+
+  if (version < SETTINGS_VERSION) {
+    for (let v = version; v < SETTINGS_VERSION; v++) {
+      stored = await migrations[v](stored);
+    }
+    const migrated = sanitizeSettings(stored);
+    await chrome.storage.sync.set({ ...migrated, [VERSION_KEY]: SETTINGS_VERSION });
+    return migrated;
+  }
+
+  return sanitizeSettings(stored);
+}
+
+// 1項目でも同期ストレージの上限を超えると保存全体が失敗するため、先に確認して分かりやすいエラーにする
+function assertWithinSyncQuota(settings: Settings): void {
+  const encoder = new TextEncoder();
+  for (const key of SETTINGS_KEYS) {
+    const bytes = encoder.encode(key + JSON.stringify(settings[key])).length;
+    if (bytes > SYNC_QUOTA_BYTES_PER_ITEM) {
+      const label = LIST_SETTING_LABELS[key] ?? key;
+      throw new Error(`${label}が大きすぎるため保存できません（${(bytes / 1024).toFixed(1)}KB、上限は${SYNC_QUOTA_BYTES_PER_ITEM / 1024}KB）。項目を減らしてください。`);
+    }
+  }
+}
+
+// 管理者が指定した項目は保存しない（ユーザーの値はそのまま残す）
+export async function saveSettings(partial: Partial<Settings>): Promise<Settings> {
+  const [current, managed] = await Promise.all([loadUserSettings(), loadManagedSettings()]);
+  const next = sanitizeSettings({ ...current, ...partial, ...pick(current, Object.keys(managed)) });
+  assertWithinSyncQuota(next);
+  await chrome.storage.sync.set({ ...next, [VERSION_KEY]: SETTINGS_VERSION });
+  return sanitizeSettings({ ...next, ...managed });
+}
+
+function pick(settings: Settings, keys: string[]): Partial<Settings> {
+  return Object.fromEntries(Object.entries(settings).filter(([key]) => keys.includes(key)));
+}
+
+// 設定変更を購読する（他のタブ・オプションページでの変更も反映される）
+export function watchSettings(callback: (settings: Settings) => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'sync' && areaName !== 'managed') return;
+    if (!SETTINGS_KEYS.some(key => key in changes)) return;
+
+    loadSettings()
+      .then(callback)
+      .catch(error => console.error('設定の再読み込みエラー:', error));
+  });
+}
@@ -0,0 +1,113 @@
+// 設定の書き出し・読み込み（APIキーなどの秘密情報は含めない）
+//
+// 書き出したファイルには形式名と設定のバージョンを付け、読み込み時に検証する。
+// 読み込む前に現在の設定との差分を確認できるようにする。
+
+import { DEFAULT_SETTINGS, SETTINGS_KEYS, SETTINGS_VERSION, Settings, sanitizeSettings } from './settings';
+
+const EXPORT_FORMAT = 'slack-message-correction-settings';
+
+export interface SettingsExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: Settings;
+}
+
+export interface SettingsImport {
+  // ファイルに含まれていた項目だけ（検証済み）
+  settings: Partial<Settings>;
+  // 不明な項目・不正な値など、読み込みはできるが注意が必要なもの
+  warnings: string[];
+}
+
+export interface SettingsChange {
+  key: keyof Settings;
+  before: unknown;
+  after: unknown;
+}
+
+// 差分の表示名
+export const SETTING_LABELS: Record<keyof Settings, string> = {
+  providerId: 'プロバイダー',
+  providerBaseUrl: 'ベースURL',
+  model: 'モデル',
+  maxTokens: '最大トークン数',
+  requestTimeoutSeconds: 'タイムアウト',
+  correctionThreshold: '校正しきい値',
+  severityThreshold: '重要度フィルタ',
+  failureMode: '失敗時の動作',
+  policies: 'ワークスペース・チャンネルごとのルール',
+  glossary: '用語集',
+  historyEnabled: '校正履歴の保存',
+  historyRetentionDays: '履歴の保持期間',
+  inlineLintEnabled: '入力中の校正',
+  sendKey: '送信キー',
+  conversationContextEnabled: '会話の文脈',
+  conversationContextMessages: '文脈に含めるメッセージ数',
+  conversationContextTokenBudget: '文脈のトークン数の上限',
+  dailyBudget: '1日の上限',
+  monthlyBudget: '1か月の上限',
+  budgetAction: '上限に達したときの動作',
+  budgetLongMessageLength: '長いメッセージの文字数',
+  modelPrices: 'モデルごとの単価',
+  vaultAutoLockMinutes: '自動ロックまでの時間'
+};
+
+export function exportSettings(settings: Settings): SettingsExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: SETTINGS_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings
+  };
+}
+
+// 読み込んだファイルを検証する（形式が違う・新しいバージョンのファイルはエラー）
+export function parseSettingsFile(content: string): SettingsImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('JSONとして読み込めませんでした');
+  }
+
+  const file = parsed as Partial<SettingsExport> | null;
+  if (!file || typeof file !== 'object' || file.format !== EXPORT_FORMAT) {
+    throw new Error('この拡張機能の設定ファイルではありません');
+  }
+  if (typeof file.version !== 'number' || file.version > SETTINGS_VERSION) {
+    throw new Error(`対応していないバージョンの設定ファイルです (version: ${String(file.version)})`);
+  }
+  if (!file.settings || typeof file.settings !== 'object') {
+    throw new Error('設定が含まれていません');
+  }
+
+  const raw = file.settings as unknown as Record<string, unknown>;
+  const warnings: string[] = [];
+  const settings: Partial<Settings> = {};
+
+  Object.keys(raw).forEach(key => {
+    if (!SETTINGS_KEYS.includes(key as keyof Settings)) {
+      warnings.push(`不明な項目「${key}」は読み込みません`);
+      return;
+    }
+
+    // 1項目ずつ検証し、範囲外などで補正された値は警告する
+    const settingKey = key as keyof Settings;
+    const value = sanitizeSettings({ ...DEFAULT_SETTINGS, [key]: raw[key] })[settingKey];
+    if (JSON.stringify(value) !== JSON.stringify(raw[key])) {
+      warnings.push(`${SETTING_LABELS[settingKey]}: 不正な値を含むため補正して読み込みます`);
+    }
+    (settings as Record<string, unknown>)[key] = value;
+  });
+
+  return { settings, warnings };
+}
+
+// 読み込むと変わる項目
+export function diffSettings(current: Settings, incoming: Partial<Settings>): SettingsChange[] {
+  return (Object.keys(incoming) as Array<keyof Settings>)
+    .filter(key => JSON.stringify(current[key]) !== JSON.stringify(incoming[key]))
+    .map(key => ({ key, before: current[key], after: incoming[key] }));
+}
@@ -0,0 +1,32 @@
+// Unlock window script
+import { KeyVault } from './keyVault';
+import { loadSettings } from './settings';
+
+document.addEventListener('DOMContentLoaded', function() {
+  const form = document.getElementById('unlockForm');
+  const passphraseInput = document.getElementById('passphrase');
+  const unlockButton = document.getElementById('unlock');
+  const status = document.getElementById('status');
+  const vault = new KeyVault();
+
+  form.addEventListener('submit', async e => {
+    e.preventDefault();
+    if (!passphraseInput.value) return;
+
+    try {
+      unlockButton.disabled = true;
+      const settings = await loadSettings();
+      await vault.unlock(passphraseInput.value, settings.vaultAutoLockMinutes);
+
+      status.textContent = '✅ ロックを解除しました。Slackに戻ってもう一度送信してください。';
+      status.className = 'status success';
+      setTimeout(() => window.close(), 1500);
+    } catch (error) {
+      console.error('ロック解除エラー:', error);
+      status.textContent = error.message;
+      status.className = 'status error';
+      passphraseInput.select();
+      unlockButton.disabled = false;
+    }
+  });
+});
@@ -0,0 +1,220 @@
+// トークン使用量と推定コストの記録・予算の上限
+//
+// background が API 呼び出しごとに入力・出力トークン数をモデル別・日別に記録し、
+// 単価表から推定コスト（USD）を計算する。日・月の上限に達したら、設定に従って
+// ローカルのチェックに切り替える・長いメッセージだけ校正する・校正を止める。
+
+import type { TokenUsage } from './providers';
+import type { Settings } from './settings';
+
+const STORAGE_KEY = 'usageStats';
+// 今月と前月を表示できるように、これより古い日のデータは削除する
+const RETENTION_MONTHS = 2;
+
+// 上限に達したときの動作
+// local: ローカルのチェックだけ行う / longOnly: 長いメッセージだけAPIで校正する / stop: 校正しない
+export type BudgetAction = 'local' | 'longOnly' | 'stop';
+
+export const BUDGET_ACTIONS: BudgetAction[] = ['local', 'longOnly', 'stop'];
+
+// 上限に達したときの動作の表示名（オプションページとポップアップで共通）
+export const BUDGET_ACTION_LABELS: Record<BudgetAction, string> = {
+  local: 'ローカルのチェックのみ',
+  longOnly: '長いメッセージだけ校正',
+  stop: '校正しない'
+};
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+// 100万トークンあたりの単価（USD）。model はモデル名の前方一致（最も長く一致したものを使う）
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'claude-haiku-4-5', inputPerMillion: 1, outputPerMillion: 5 },
+  { model: 'claude-sonnet-4', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-opus-4', inputPerMillion: 15, outputPerMillion: 75 },
+  { model: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 }
+];
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // 単価が登録されていないモデルへのリクエスト数（コストに含まれない）
+  unpricedRequests: number;
+}
+
+// 日付（YYYY-MM-DD、ローカル時刻）→ モデル → 集計
+type UsageLog = Record<string, Record<string, UsageTotals>>;
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  // 今月のモデル別（コストの高い順）
+  byModel: ModelUsage[];
+}
+
+export interface BudgetStatus {
+  // 上限に達している期間（日・月の両方なら日を優先）
+  exceeded: BudgetPeriod | null;
+  action: BudgetAction;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly period: BudgetPeriod, readonly action: BudgetAction) {
+    super(`${period === 'daily' ? '今日' : '今月'}のAPI利用額が上限に達したため、校正APIを呼び出しませんでした`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedRequests: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): UsageTotals {
+  target.requests += source.requests;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cost += source.cost;
+  target.unpricedRequests += source.unpricedRequests;
+  return target;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function monthKey(date: Date): string {
+  return dayKey(date).slice(0, 7);
+}
+
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | null {
+  return prices
+    .filter(price => price.model && model.startsWith(price.model))
+    .sort((a, b) => b.model.length - a.model.length)[0] || null;
+}
+
+// 単価が登録されていない場合は null
+export function estimateCost(usage: TokenUsage, price: ModelPrice | null): number | null {
+  if (!price) return null;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+// 1セント未満も桁が分かるように表示する
+export function formatUsd(cost: number): string {
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && !Number.isNaN(value) && value >= 0;
+}
+
+// 保存値を検証する（不正な行は除外）
+export function sanitizeModelPrices(value: unknown): ModelPrice[] {
+  if (!Array.isArray(value)) return DEFAULT_MODEL_PRICES;
+
+  return value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .filter(item => typeof item.model === 'string' && item.model.trim() &&
+                    isNonNegativeNumber(item.inputPerMillion) &&
+                    isNonNegativeNumber(item.outputPerMillion))
+    .map(item => ({
+      model: (item.model as string).trim(),
+      inputPerMillion: item.inputPerMillion as number,
+      outputPerMillion: item.outputPerMillion as number
+    }));
+}
+
+export function summarizeUsage(log: UsageLog, now: Date = new Date()): UsageSummary {
+  const today = dayKey(now);
+  const month = monthKey(now);
+  const summary: UsageSummary = { today: emptyTotals(), month: emptyTotals(), byModel: [] };
+  const byModel = new Map<string, UsageTotals>();
+
+  Object.entries(log).forEach(([day, models]) => {
+    if (!day.startsWith(month)) return;
+    Object.entries(models).forEach(([model, totals]) => {
+      addTotals(summary.month, totals);
+      if (day === today) addTotals(summary.today, totals);
+      addTotals(byModel.get(model) || byModel.set(model, emptyTotals()).get(model)!, totals);
+    });
+  });
+
+  summary.byModel = Array.from(byModel, ([model, totals]) => ({ model, ...totals }))
+    .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+  return summary;
+}
+
+// 上限（0 は上限なし）に達しているか
+export function checkBudget(summary: UsageSummary, settings: Pick<Settings, 'dailyBudget' | 'monthlyBudget' | 'budgetAction'>): BudgetStatus {
+  const exceeded = settings.dailyBudget > 0 && summary.today.cost >= settings.dailyBudget
+    ? 'daily'
+    : settings.monthlyBudget > 0 && summary.month.cost >= settings.monthlyBudget
+      ? 'monthly'
+      : null;
+  return { exceeded, action: settings.budgetAction };
+}
+
+export class UsageStore {
+  // サービスワーカー内で同時に記録しても集計が失われないように順番に書き込む
+  private queue: Promise<void> = Promise.resolve();
+
+  async load(): Promise<UsageLog> {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    return (result[STORAGE_KEY] as UsageLog) || {};
+  }
+
+  async summarize(now: Date = new Date()): Promise<UsageSummary> {
+    return summarizeUsage(await this.load(), now);
+  }
+
+  record(model: string, usage: TokenUsage, prices: ModelPrice[], now: Date = new Date()): Promise<void> {
+    const task = this.queue.then(async () => {
+      const log = await this.load();
+      const day = dayKey(now);
+      const models = log[day] || (log[day] = {});
+      const cost = estimateCost(usage, findModelPrice(model, prices));
+
+      addTotals(models[model] || (models[model] = emptyTotals()), {
+        requests: 1,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: cost ?? 0,
+        unpricedRequests: cost === null ? 1 : 0
+      });
+
+      // 前月より古い日のデータを削除
+      const oldest = new Date(now.getFullYear(), now.getMonth() - (RETENTION_MONTHS - 1), 1);
+      Object.keys(log).forEach(key => {
+        if (key < dayKey(oldest)) delete log[key];
+      });
+
+      await chrome.storage.local.set({ [STORAGE_KEY]: log });
+    });
+
+    // 失敗しても次の記録は続ける
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  async clear(): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_KEY);
+  }
+}
@@ -4,10 +4,13 @@ import { resolve } from 'path'
 export default defineConfig({
   build: {
     rollupOptions: {
+      // content.ts はES Moduleとして読み込めないため vite.content.config.js で別途ビルドする
       input: {
-        content: 'src/content.ts',
         background: 'src/background.ts',
-        options: 'src/options.js'
+        options: 'src/options.js',
+        history: 'src/history.js',
+        popup: 'src/popup.js',
+        unlock: 'src/unlock.js'
       },
       output: {
         entryFileNames: '[name].js',
@@ -32,9 +35,21 @@ export default defineConfig({
         // manifest.json をコピー
         fs.copyFileSync('src/manifest.json', 'dist/manifest.json');
         
+        // 管理ポリシーのスキーマをコピー
+        fs.copyFileSync('src/managed_schema.json', 'dist/managed_schema.json');
+        
         // options.html をコピー
         fs.copyFileSync('src/options.html', 'dist/options.html');
         
+        // history.html をコピー
+        fs.copyFileSync('src/history.html', 'dist/history.html');
+        
+        // popup.html をコピー
+        fs.copyFileSync('src/popup.html', 'dist/popup.html');
+        
+        // unlock.html をコピー
+        fs.copyFileSync('src/unlock.html', 'dist/unlock.html');
+        
         // styles.css をコピー
         fs.copyFileSync('src/styles.css', 'dist/styles.css');
       }
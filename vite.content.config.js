@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// コンテンツスクリプトはES Moduleとして読み込めないため、
+// 共有モジュールを含めて単一のIIFEとしてビルドする
+export default defineConfig({
+  build: {
+    lib: {
+      entry: 'src/content.ts',
+      name: 'SlackMessageCorrection',
+      formats: ['iife'],
+      fileName: () => 'content.js'
+    },
+    outDir: 'dist',
+    // メインのビルド結果を消さない
+    emptyOutDir: false,
+    copyPublicDir: false
+  },
+  define: {
+    'process.env.NODE_ENV': '"production"'
+  }
+})